@@ -2,19 +2,69 @@
 
 import { Command } from 'commander';
 import * as path from 'path';
+import * as readline from 'readline';
 import * as dotenv from 'dotenv';
 import chalk from 'chalk';
 import ora from 'ora';
-import { loadConfig } from './utils/file-manager';
+import { loadConfig, exists } from './utils/file-manager';
 import { SyncFromIntercom } from './sync/sync-from-intercom';
 import { SyncToIntercom } from './sync/sync-to-intercom';
-import { IntercomConfig } from './types';
+import { SyncStatus } from './sync/sync-status';
+import { getHelpCenterConfigs, getHelpCenterLabel, findHelpCenterConfig } from './utils/help-centers';
+import {
+  IntercomConfig,
+  SyncResult,
+  SyncProgress,
+  PullConflictStrategy,
+  ArticleSyncState,
+  ArticleStatus,
+  DeletionCandidate,
+} from './types';
+import {
+  ConfigError,
+  IntercomSyncError,
+  SyncErrorCode,
+  EXIT_CODES,
+  ERROR_HINTS,
+  toErrorEntry,
+} from './errors';
+
+type ErrorEntry = SyncResult['errors'][number];
 
 // Load environment variables
 dotenv.config();
 
 const program = new Command();
 
+/**
+ * Load config from --config or help-docs/.intercom-config.json (optional)
+ * articlesDir is resolved relative to the config file when one exists
+ */
+async function loadCliConfig(configOption?: string): Promise<IntercomConfig> {
+  const configPath = configOption
+    ? path.resolve(process.cwd(), configOption)
+    : path.resolve(process.cwd(), 'help-docs/.intercom-config.json');
+  const basePath = path.resolve(process.cwd(), 'help-docs');
+
+  const config: IntercomConfig = await loadConfig(configPath, basePath);
+
+  // Convert relative paths to absolute if config file exists
+  if (configOption || await exists(configPath)) {
+    config.articlesDir = path.resolve(
+      path.dirname(configPath),
+      config.articlesDir
+    );
+    config.helpCenters?.forEach(helpCenter => {
+      helpCenter.articlesDir = path.resolve(path.dirname(configPath), helpCenter.articlesDir);
+    });
+    if (config.imageUploader?.type === 'local' && config.imageUploader.dir) {
+      config.imageUploader.dir = path.resolve(path.dirname(configPath), config.imageUploader.dir);
+    }
+  }
+
+  return config;
+}
+
 program
   .name('intercom-help-sync')
   .description('CLI tool to sync Intercom Help Center articles with local markdown files')
@@ -25,154 +75,222 @@ program
   .description('Pull articles from Intercom to local files')
   .option('-c, --config <path>', 'Path to config file (optional)')
   .option('-a, --article-id <id>', 'Sync only specific article by ID')
+  .option('-f, --force', 'Overwrite local files even if they were edited since the last pull')
+  .option(
+    '--on-conflict <strategy>',
+    'What to do with locally edited files: skip, side-file (write <name>.remote.md) or merge (insert conflict markers)',
+    'skip'
+  )
+  .option('--prune <strategy>', 'What to do with articles and collections deleted in Intercom: flag, archive or delete')
+  .option('--full', 'Rewrite all articles, not only those updated in Intercom since the last pull')
+  .option('--download-images', 'Download Intercom-hosted images into _assets and link them relatively')
+  .option('--help-center <id>', 'Only sync this help center (ID or name from the config)')
   .action(async (options) => {
     const spinner = ora('Loading configuration...').start();
 
     try {
-      // Try to find config file
-      const configPath = options.config
-        ? path.resolve(process.cwd(), options.config)
-        : path.resolve(process.cwd(), 'help-docs/.intercom-config.json');
-      const basePath = path.resolve(process.cwd(), 'help-docs');
-
-      const config: IntercomConfig = await loadConfig(configPath, basePath);
-
-      // Convert relative path to absolute if config file exists
-      if (options.config || await import('fs/promises').then(fs => fs.access(configPath).then(() => true).catch(() => false))) {
-        config.articlesDir = path.resolve(
-          path.dirname(configPath),
-          config.articlesDir
-        );
+      const config = await loadCliConfig(options.config);
+
+      if (!['skip', 'side-file', 'merge'].includes(options.onConflict)) {
+        throw new ConfigError(`Invalid --on-conflict strategy: ${options.onConflict} (expected skip, side-file or merge)`);
       }
 
-      const sync = new SyncFromIntercom(config);
+      if (options.prune) {
+        if (!['flag', 'archive', 'delete'].includes(options.prune)) {
+          throw new ConfigError(`Invalid --prune strategy: ${options.prune} (expected flag, archive or delete)`);
+        }
+        config.pruneOrphans = options.prune;
+      }
 
-      if (options.articleId) {
-        spinner.text = `Pulling article ${options.articleId}...`;
-        const result = await sync.syncById(options.articleId);
+      if (options.downloadImages) {
+        config.downloadImages = true;
+      }
 
-        spinner.succeed(
-          `Sync completed: ${result.created} created, ${result.updated} updated`
-        );
+      const errors: ErrorEntry[] = [];
+      for (const helpCenterConfig of getHelpCenterConfigs(config, options.helpCenter)) {
+        const label = formatHelpCenter(helpCenterConfig);
+        const sync = new SyncFromIntercom(helpCenterConfig, {
+          force: options.force,
+          onConflict: options.onConflict,
+          full: options.full,
+          onProgress: progress => {
+            spinner.text = `${label}Pulling articles... ${formatProgress(progress)}`;
+          },
+        });
 
-        if (result.errors.length > 0) {
-          console.error(chalk.red('\nErrors:'));
-          result.errors.forEach(err => {
-            console.error(chalk.red(`  - ${err.articleId || 'Unknown'}: ${err.error}`));
-          });
-        }
-      } else {
-        spinner.text = 'Pulling all articles from Intercom...';
-        const result = await sync.syncAll();
-
-        spinner.succeed(
-          `Sync completed: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`
-        );
-
-        if (result.errors.length > 0) {
-          console.error(chalk.red(`\n${result.errors.length} errors occurred:`));
-          result.errors.forEach(err => {
-            console.error(chalk.red(`  - ${err.articleId || 'Unknown'}: ${err.error}`));
-          });
+        spinner.start();
+        if (options.articleId) {
+          spinner.text = `${label}Pulling article ${options.articleId}...`;
+          const result = await sync.syncById(options.articleId);
+
+          spinner.succeed(
+            `${label}Sync completed: ${result.created} created, ${result.updated} updated`
+          );
+
+          showConflicts(result);
+          errors.push(...result.errors);
+        } else {
+          spinner.text = `${label}Pulling all articles from Intercom...`;
+          const result = await sync.syncAll();
+
+          spinner.succeed(
+            `${label}Sync completed: ${result.created} created, ${result.updated} updated, ${result.skipped} unchanged/skipped, ${result.orphaned} orphaned`
+          );
+
+          showConflicts(result);
+          errors.push(...result.errors);
         }
       }
+
+      exitOnErrors(errors);
     } catch (error) {
       spinner.fail('Sync failed');
-      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
 program
   .command('push')
   .description('Push local articles to Intercom')
-  .argument('<files...>', 'Files to push')
+  .argument('[files...]', 'Files to push')
   .option('-c, --config <path>', 'Path to config file (optional)')
+  .option('-a, --all', 'Push all articles that differ from Intercom')
   .option('-n, --dry-run', 'Show diff without pushing')
+  .option('-m, --merge', 'Three-way merge when the article was changed in Intercom since the last pull')
+  .option('-f, --force', 'Push even if the article was changed in Intercom since the last pull')
+  .option('--prune', 'Also delete articles from Intercom whose local files were deleted')
+  .option('-y, --yes', 'Do not ask for confirmation before deleting (required in non-interactive mode)')
+  .option('--help-center <id>', 'Only sync this help center (ID or name from the config)')
   .action(async (files: string[], options) => {
     const spinner = ora('Loading configuration...').start();
 
     try {
-      // Try to find config file
-      const configPath = options.config
-        ? path.resolve(process.cwd(), options.config)
-        : path.resolve(process.cwd(), 'help-docs/.intercom-config.json');
-      const basePath = path.resolve(process.cwd(), 'help-docs');
-
-      const config: IntercomConfig = await loadConfig(configPath, basePath);
-
-      // Convert relative path to absolute if config file exists
-      if (options.config || await import('fs/promises').then(fs => fs.access(configPath).then(() => true).catch(() => false))) {
-        config.articlesDir = path.resolve(
-          path.dirname(configPath),
-          config.articlesDir
-        );
+      const config = await loadCliConfig(options.config);
+      const configs = getHelpCenterConfigs(config, options.helpCenter);
+
+      if (!options.all && files.length === 0) {
+        throw new ConfigError('Specify files to push, or use --all');
       }
 
-      const sync = new SyncToIntercom(config);
+      // Explicit files are pushed by the help center whose directory contains them
+      const outside = configs.length > 1
+        ? files.filter(file => !findHelpCenterConfig(configs, path.resolve(process.cwd(), file)))
+        : [];
+      if (outside.length > 0) {
+        throw new ConfigError(`Not in the articles directory of any help center: ${outside.join(', ')}`);
+      }
 
       let totalCreated = 0;
       let totalUpdated = 0;
-      const errors: { file: string; error: string }[] = [];
-
-      for (const file of files) {
-        const filePath = path.resolve(process.cwd(), file);
-
-        // Show diff
-        spinner.text = `Comparing ${file}...`;
-        try {
-          const dryRunResult = await sync.dryRun(filePath);
-          spinner.stop();
-
-          console.log(chalk.cyan(`\n=== ${dryRunResult.title} ===`));
-          console.log(chalk.gray(`File: ${file}`));
-          if (dryRunResult.isNew) {
-            console.log(chalk.yellow('This is a new article (will be created)\n'));
-            console.log(chalk.green('New HTML:'));
-            console.log(formatHtml(dryRunResult.newHtml));
-          } else {
-            console.log(chalk.gray(`Intercom ID: ${dryRunResult.intercomId}\n`));
-            showDiff(dryRunResult.currentHtml || '', dryRunResult.newHtml);
-          }
+      let totalSkipped = 0;
+      const collections = { created: 0, updated: 0 };
+      const errors: ErrorEntry[] = [];
+      const syncs: SyncToIntercom[] = [];
+
+      for (const helpCenterConfig of configs) {
+        const label = formatHelpCenter(helpCenterConfig);
+        const sync = new SyncToIntercom(helpCenterConfig, {
+          force: options.force,
+          merge: options.merge,
+          onProgress: progress => {
+            spinner.text = `${label}Pushing articles... ${formatProgress(progress)}`;
+          },
+        });
+        syncs.push(sync);
+
+        let helpCenterFiles = configs.length > 1
+          ? files.filter(file => findHelpCenterConfig(configs, path.resolve(process.cwd(), file)) === helpCenterConfig)
+          : files;
+
+        if (options.all && !options.dryRun) {
+          // Push everything concurrently; unchanged articles are skipped
+          spinner.start(`${label}Pushing articles...`);
+          const result = await sync.syncAll();
+          totalCreated += result.created;
+          totalUpdated += result.updated;
+          totalSkipped += result.skipped;
+          collections.created += result.collections?.created || 0;
+          collections.updated += result.collections?.updated || 0;
+          errors.push(...result.errors);
+          helpCenterFiles = [];
+        } else if (options.all) {
+          spinner.text = `${label}Reading local articles...`;
+          helpCenterFiles = (await sync.getArticleFiles()).map(file => path.relative(process.cwd(), file));
+        }
 
-          // Show translation diffs
-          for (const translation of dryRunResult.translations) {
-            console.log(chalk.cyan(`\n=== Translation: ${translation.locale} ===`));
-            if (translation.currentHtml) {
-              showDiff(translation.currentHtml, translation.newHtml);
-            } else {
-              console.log(chalk.yellow('New translation\n'));
+        for (const file of helpCenterFiles) {
+          const filePath = path.resolve(process.cwd(), file);
+
+          // Show diff
+          spinner.text = `Comparing ${file}...`;
+          try {
+            const dryRunResult = await sync.dryRun(filePath);
+            spinner.stop();
+
+            // Articles identical to Intercom are not pushed
+            if (dryRunResult.unchanged) {
+              totalSkipped++;
+              if (!options.all) {
+                console.log(chalk.gray(`\nNo changes: ${file}`));
+              }
+              spinner.start();
+              continue;
+            }
+
+            console.log(chalk.cyan(`\n=== ${dryRunResult.title} ===`));
+            console.log(chalk.gray(`File: ${file}`));
+            if (dryRunResult.isNew) {
+              console.log(chalk.yellow('This is a new article (will be created)\n'));
               console.log(chalk.green('New HTML:'));
-              console.log(formatHtml(translation.newHtml));
+              console.log(formatHtml(dryRunResult.newHtml));
+            } else {
+              console.log(chalk.gray(`Intercom ID: ${dryRunResult.intercomId}\n`));
+              showDiff(dryRunResult.currentHtml || '', dryRunResult.newHtml);
             }
-          }
 
-          if (!options.dryRun) {
-            // Actually push
-            const pushSpinner = ora(`Pushing ${file}...`).start();
-            const result = await sync.syncFile(filePath);
-            pushSpinner.succeed(`Pushed ${file}`);
+            if (dryRunResult.movedToCollection) {
+              console.log(chalk.yellow(`Moves to collection ${dryRunResult.movedToCollection}`));
+            }
 
-            totalCreated += result.created;
-            totalUpdated += result.updated;
+            if (dryRunResult.remoteChanged.length > 0) {
+              console.log(chalk.yellow(
+                `Changed in Intercom since last pull: ${dryRunResult.remoteChanged.join(', ')}`
+              ));
+            }
+
+            // Show translation diffs
+            for (const translation of dryRunResult.translations) {
+              console.log(chalk.cyan(`\n=== Translation: ${translation.locale} ===`));
+              if (translation.currentHtml) {
+                showDiff(translation.currentHtml, translation.newHtml);
+              } else {
+                console.log(chalk.yellow('New translation\n'));
+                console.log(chalk.green('New HTML:'));
+                console.log(formatHtml(translation.newHtml));
+              }
+            }
+
+            if (!options.dryRun) {
+              // Actually push
+              const pushSpinner = ora(`Pushing ${file}...`).start();
+              const result = await sync.syncFile(filePath);
+              pushSpinner.succeed(`Pushed ${file}`);
 
-            if (result.errors.length > 0) {
-              errors.push(...result.errors.map(err => ({
-                file: err.file || file,
-                error: err.error,
-              })));
+              totalCreated += result.created;
+              totalUpdated += result.updated;
+              totalSkipped += result.skipped;
+
+              errors.push(...result.errors.map(err => ({ ...err, file: err.file || file })));
             }
+          } catch (error) {
+            spinner.stop();
+            const entry = toErrorEntry(error, { file });
+            errors.push(entry);
+            console.error(chalk.red(`Error processing ${file}: ${entry.error}`));
           }
-        } catch (error) {
-          spinner.stop();
-          errors.push({
-            file,
-            error: error instanceof Error ? error.message : String(error),
-          });
-          console.error(chalk.red(`Error processing ${file}: ${error instanceof Error ? error.message : String(error)}`));
-        }
 
-        spinner.start();
+          spinner.start();
+        }
       }
 
       spinner.stop();
@@ -180,22 +298,287 @@ program
       if (options.dryRun) {
         console.log(chalk.cyan(`\n--- Dry run complete (no changes made) ---`));
       } else {
-        console.log(chalk.green(`\nSync completed: ${totalCreated} created, ${totalUpdated} updated`));
+        console.log(chalk.green(`\nSync completed: ${totalCreated} created, ${totalUpdated} updated, ${totalSkipped} unchanged`));
+        if (collections.created > 0 || collections.updated > 0) {
+          console.log(chalk.green(`Collections: ${collections.created} created, ${collections.updated} updated`));
+        }
       }
 
-      if (errors.length > 0) {
-        console.error(chalk.red(`\n${errors.length} error(s):`));
-        errors.forEach(err => {
-          console.error(chalk.red(`  - ${err.file}: ${err.error}`));
-        });
+      if (options.prune) {
+        for (const sync of syncs) {
+          const { candidates, unmatched, translations } = await sync.findDeletedArticles();
+          showDeletionCandidates(candidates, unmatched, translations);
+
+          if (candidates.length > 0 && !options.dryRun && await confirmDeletion(candidates, options.yes)) {
+            const result = await sync.deleteArticles(candidates);
+            console.log(chalk.green(`Deleted ${result.deleted} article(s) from Intercom`));
+            errors.push(...result.errors);
+          }
+        }
       }
+
+      exitOnErrors(errors);
     } catch (error) {
       spinner.fail('Failed');
-      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+program
+  .command('delete')
+  .description('Delete articles (with all translations) from Intercom')
+  .argument('[files...]', 'Files of the articles to delete (default: articles whose local files were deleted)')
+  .option('-c, --config <path>', 'Path to config file (optional)')
+  .option('-y, --yes', 'Do not ask for confirmation (required in non-interactive mode)')
+  .option('--help-center <id>', 'Only sync this help center (ID or name from the config)')
+  .action(async (files: string[], options) => {
+    const spinner = ora('Loading configuration...').start();
+
+    try {
+      const config = await loadCliConfig(options.config);
+      const configs = getHelpCenterConfigs(config, options.helpCenter);
+
+      const errors: ErrorEntry[] = [];
+      for (const helpCenterConfig of configs) {
+        const label = formatHelpCenter(helpCenterConfig);
+        const sync = new SyncToIntercom(helpCenterConfig);
+
+        let candidates: DeletionCandidate[];
+        let unmatched: string[] = [];
+        let translations: string[] = [];
+        if (files.length > 0) {
+          spinner.start(`${label}Reading articles...`);
+          candidates = [];
+          for (const file of files) {
+            const filePath = path.resolve(process.cwd(), file);
+            const owner = configs.length > 1 ? findHelpCenterConfig(configs, filePath) : helpCenterConfig;
+            if (!owner) {
+              throw new ConfigError(`Not in the articles directory of any help center: ${file}`);
+            }
+            if (owner !== helpCenterConfig) {
+              continue;
+            }
+
+            const candidate = await sync.findArticleGroup(filePath);
+            if (!candidates.some(c => c.intercomId === candidate.intercomId)) {
+              candidates.push(candidate);
+            }
+          }
+        } else {
+          spinner.start(`${label}Looking for locally deleted articles...`);
+          ({ candidates, unmatched, translations } = await sync.findDeletedArticles());
+        }
+        spinner.stop();
+
+        showDeletionCandidates(candidates, unmatched, translations);
+        if (candidates.length === 0) {
+          continue;
+        }
+
+        if (!(await confirmDeletion(candidates, options.yes))) {
+          console.log(chalk.gray('Aborted'));
+          return;
+        }
+
+        const result = await sync.deleteArticles(candidates);
+        console.log(chalk.green(`\n${label}Deleted ${result.deleted} article(s) from Intercom`));
+        errors.push(...result.errors);
+      }
+
+      exitOnErrors(errors);
+    } catch (error) {
+      spinner.fail('Delete failed');
+      exitWithError(error);
+    }
+  });
+
+program
+  .command('status')
+  .description('Show local vs. remote changes for each article and locale')
+  .option('-c, --config <path>', 'Path to config file (optional)')
+  .option('-a, --all', 'Also list unchanged articles')
+  .option('--help-center <id>', 'Only sync this help center (ID or name from the config)')
+  .action(async (options) => {
+    const spinner = ora('Loading configuration...').start();
+
+    try {
+      const config = await loadCliConfig(options.config);
+      const statuses: ArticleStatus[] = [];
+      for (const helpCenterConfig of getHelpCenterConfigs(config, options.helpCenter)) {
+        spinner.text = `${formatHelpCenter(helpCenterConfig)}Comparing local files with Intercom...`;
+        statuses.push(...await new SyncStatus(helpCenterConfig).getStatus());
+      }
+      spinner.stop();
+
+      const labels: Record<ArticleSyncState, [string, chalk.Chalk]> = {
+        'unchanged': ['unchanged', chalk.gray],
+        'local-modified': ['modified locally', chalk.green],
+        'remote-modified': ['modified remotely', chalk.cyan],
+        'both-modified': ['modified on both', chalk.red],
+        'local-only': ['new (local only)', chalk.green],
+        'remote-only': ['new (remote only)', chalk.cyan],
+        'remote-deleted': ['deleted remotely', chalk.red],
+        'invalid': ['invalid', chalk.red],
+      };
+
+      const counts = new Map<ArticleSyncState, number>();
+      for (const entry of statuses) {
+        counts.set(entry.state, (counts.get(entry.state) || 0) + 1);
+        if (entry.state === 'unchanged' && !options.all) {
+          continue;
+        }
+        const location = entry.file
+          ? path.relative(process.cwd(), entry.file)
+          : `${entry.intercomId} "${entry.title}"`;
+        const [label, color] = labels[entry.state];
+        console.log(`  ${color(label.padEnd(17))}  [${entry.locale}] ${location}`);
+        if (entry.error) {
+          console.log(color(`                     ${entry.error}`));
+        }
+      }
+
+      const summary = Array.from(counts.entries())
+        .map(([state, count]) => `${count} ${state}`)
+        .join(', ');
+      console.log(summary ? `\n${summary}` : 'No articles found');
+    } catch (error) {
+      spinner.fail('Status failed');
+      exitWithError(error);
     }
   });
 
+/**
+ * List articles that would be deleted from Intercom
+ */
+function showDeletionCandidates(
+  candidates: DeletionCandidate[],
+  unmatched: string[],
+  translations: string[] = []
+): void {
+  if (unmatched.length > 0) {
+    console.log(chalk.yellow('\nDeleted locally but not matching a single unchanged Intercom article (not deleted):'));
+    unmatched.forEach(file => {
+      console.log(chalk.yellow(`  - ${path.relative(process.cwd(), file)}`));
+    });
+  }
+
+  if (translations.length > 0) {
+    console.log(chalk.yellow('\nTranslations deleted locally (not deleted from Intercom, restored by the next pull):'));
+    translations.forEach(file => {
+      console.log(chalk.yellow(`  - ${path.relative(process.cwd(), file)}`));
+    });
+  }
+
+  if (candidates.length === 0) {
+    console.log(chalk.gray('\nNo articles to delete'));
+    return;
+  }
+
+  console.log(chalk.cyan(`\n${candidates.length} article(s) to delete from Intercom:`));
+  candidates.forEach(candidate => {
+    console.log(`  - ${candidate.title} (${candidate.intercomId}) [${candidate.locales.join(', ')}]`);
+  });
+}
+
+/**
+ * Ask for confirmation before deleting articles
+ * Refuses in non-interactive mode unless --yes is given
+ */
+async function confirmDeletion(candidates: DeletionCandidate[], yes?: boolean): Promise<boolean> {
+  if (yes) {
+    return true;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new ConfigError('Refusing to delete articles in non-interactive mode without --yes');
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>(resolve => {
+    rl.question(`Delete ${candidates.length} article(s) from Intercom? [y/N] `, resolve);
+  });
+  rl.close();
+
+  return /^y(es)?$/i.test(answer.trim());
+}
+
+/**
+ * Show local files that were protected from being overwritten by pull
+ */
+function showConflicts(result: SyncResult): void {
+  if (result.conflicts.length === 0) {
+    return;
+  }
+
+  const labels: Record<PullConflictStrategy, string> = {
+    'skip': 'skipped (local edits kept)',
+    'side-file': 'remote version written to side file',
+    'merge': 'merged (check for conflict markers)',
+  };
+
+  console.log(chalk.yellow(`\n${result.conflicts.length} locally edited file(s):`));
+  result.conflicts.forEach(conflict => {
+    console.log(chalk.yellow(`  - ${conflict.file}: ${labels[conflict.resolution]}`));
+  });
+  console.log(chalk.gray('Use --force to overwrite local edits'));
+}
+
+/**
+ * Print per-article errors with a hint per error code, then exit with the matching code
+ */
+function exitOnErrors(errors: ErrorEntry[]): void {
+  if (errors.length === 0) {
+    return;
+  }
+
+  console.error(chalk.red(`\n${errors.length} error(s):`));
+  errors.forEach(err => {
+    const location = [err.file && path.relative(process.cwd(), err.file), err.articleId, err.locale]
+      .filter(Boolean)
+      .join(' ');
+    console.error(chalk.red(`  - ${location || 'Unknown'}: ${err.error}`));
+  });
+
+  const codes = Array.from(new Set(errors.map(err => err.code)));
+  codes.forEach(code => {
+    if (code) {
+      console.error(chalk.gray(`Hint: ${ERROR_HINTS[code]}`));
+    }
+  });
+
+  // A single error kind gets its own exit code, mixed errors exit with 1
+  process.exit(codes.length === 1 && codes[0] ? EXIT_CODES[codes[0]] : 1);
+}
+
+/**
+ * Print a fatal error with its hint and exit with the matching code
+ */
+function exitWithError(error: unknown): never {
+  console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+
+  let code: SyncErrorCode | undefined;
+  if (error instanceof IntercomSyncError) {
+    code = error.code;
+    console.error(chalk.gray(`Hint: ${ERROR_HINTS[code]}`));
+  }
+  process.exit(code ? EXIT_CODES[code] : 1);
+}
+
+/**
+ * Prefix for output of a help center, e.g. "[customers] " (empty without help centers)
+ */
+function formatHelpCenter(config: IntercomConfig): string {
+  const label = getHelpCenterLabel(config);
+  return label ? `[${label}] ` : '';
+}
+
+/**
+ * Format progress for the spinner, e.g. "12/300 (4.2/s)"
+ */
+function formatProgress(progress: SyncProgress): string {
+  return `${progress.completed}/${progress.total} (${progress.perSecond.toFixed(1)}/s)`;
+}
+
 /**
  * Format HTML for display (add line breaks for readability)
  */
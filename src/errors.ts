@@ -0,0 +1,253 @@
+/**
+ * Error classes for intercom-help-sync
+ * Each error carries a code (mapped to a CLI exit code and hint) and, where known,
+ * the file, locale and article it relates to.
+ */
+
+import axios from 'axios';
+import { SyncResult } from './types';
+
+export type SyncErrorCode =
+  | 'AUTH'
+  | 'NOT_FOUND'
+  | 'VALIDATION'
+  | 'RATE_LIMIT'
+  | 'API'
+  | 'LOCAL_PARSE'
+  | 'CONVERSION'
+  | 'CONFLICT'
+  | 'CONFIG'
+  | 'UPLOAD';
+
+export interface ErrorContext {
+  file?: string;
+  locale?: string;
+  articleId?: string;
+}
+
+export class IntercomSyncError extends Error {
+  readonly code: SyncErrorCode;
+  file?: string;
+  locale?: string;
+  articleId?: string;
+
+  constructor(code: SyncErrorCode, message: string, context: ErrorContext = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.file = context.file;
+    this.locale = context.locale;
+    this.articleId = context.articleId;
+  }
+}
+
+/**
+ * Error response from the Intercom API
+ * body is Intercom's error body, e.g. { type: 'error.list', errors: [{ code, message }] }
+ */
+export class IntercomApiError extends IntercomSyncError {
+  readonly status?: number;
+  readonly body?: unknown;
+
+  constructor(
+    message: string,
+    status?: number,
+    body?: unknown,
+    context: ErrorContext = {},
+    code: SyncErrorCode = 'API'
+  ) {
+    super(code, message, context);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/** 401/403: missing or invalid access token, or missing permissions */
+export class AuthError extends IntercomApiError {
+  constructor(message: string, status?: number, body?: unknown, context: ErrorContext = {}) {
+    super(message, status, body, context, 'AUTH');
+  }
+}
+
+/** 404: article or collection doesn't exist (e.g. deleted in Intercom) */
+export class NotFoundError extends IntercomApiError {
+  constructor(message: string, status?: number, body?: unknown, context: ErrorContext = {}) {
+    super(message, status, body, context, 'NOT_FOUND');
+  }
+}
+
+/** 400/422: Intercom rejected the request data */
+export class ValidationError extends IntercomApiError {
+  constructor(message: string, status?: number, body?: unknown, context: ErrorContext = {}) {
+    super(message, status, body, context, 'VALIDATION');
+  }
+}
+
+/** 429: rate limit still exceeded after retries */
+export class RateLimitError extends IntercomApiError {
+  readonly resetAt?: number;
+
+  constructor(message: string, status?: number, body?: unknown, context: ErrorContext = {}, resetAt?: number) {
+    super(message, status, body, context, 'RATE_LIMIT');
+    this.resetAt = resetAt;
+  }
+}
+
+/** A local file (article or config) couldn't be read or parsed */
+export class LocalParseError extends IntercomSyncError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super('LOCAL_PARSE', message, context);
+  }
+}
+
+/** HTML <-> Markdown conversion failed */
+export class ConversionError extends IntercomSyncError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super('CONVERSION', message, context);
+  }
+}
+
+/** The article changed on both sides since the last sync */
+export class ConflictError extends IntercomSyncError {
+  readonly locales: string[];
+
+  constructor(message: string, locales: string[], context: ErrorContext = {}) {
+    super('CONFLICT', message, context);
+    this.locales = locales;
+  }
+}
+
+/** Invalid configuration or options */
+export class ConfigError extends IntercomSyncError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super('CONFIG', message, context);
+  }
+}
+
+/** A local image couldn't be uploaded by the configured imageUploader */
+export class UploadError extends IntercomSyncError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number, context: ErrorContext = {}) {
+    super('UPLOAD', message, context);
+    this.status = status;
+  }
+}
+
+/**
+ * Convert an axios error into a typed API error
+ */
+export function fromAxiosError(error: unknown, context: ErrorContext = {}): unknown {
+  if (!axios.isAxiosError(error)) {
+    return error;
+  }
+
+  const status = error.response?.status;
+  const body = error.response?.data;
+  const detail = getIntercomErrorMessage(body) || error.message;
+  const target = context.articleId ? ` (article ${context.articleId})` : '';
+  const message = status
+    ? `Intercom API error ${status}${target}: ${detail}`
+    : `Intercom API request failed${target}: ${detail}`;
+
+  switch (status) {
+    case 401:
+    case 403:
+      return new AuthError(message, status, body, context);
+    case 404:
+      return new NotFoundError(message, status, body, context);
+    case 400:
+    case 422:
+      return new ValidationError(message, status, body, context);
+    case 429: {
+      const reset = Number(error.response?.headers['x-ratelimit-reset']);
+      return new RateLimitError(message, status, body, context, reset > 0 ? reset : undefined);
+    }
+    default:
+      return new IntercomApiError(message, status, body, context);
+  }
+}
+
+/**
+ * Extract the messages from an Intercom error body
+ */
+function getIntercomErrorMessage(body: unknown): string | undefined {
+  const errors = (body as { errors?: Array<{ code?: string; message?: string }> } | undefined)?.errors;
+  if (!Array.isArray(errors) || errors.length === 0) {
+    return undefined;
+  }
+  return errors.map(e => e.message || e.code).filter(Boolean).join('; ');
+}
+
+/**
+ * Get a printable message from any thrown value
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Build a SyncResult error entry, keeping the typed error's code, status and context
+ */
+export function toErrorEntry(
+  error: unknown,
+  context: ErrorContext = {}
+): SyncResult['errors'][number] {
+  const entry: SyncResult['errors'][number] = {
+    file: context.file,
+    articleId: context.articleId,
+    locale: context.locale,
+    error: errorMessage(error),
+  };
+
+  if (error instanceof IntercomSyncError) {
+    entry.code = error.code;
+    entry.file = error.file || entry.file;
+    entry.articleId = error.articleId || entry.articleId;
+    entry.locale = error.locale || entry.locale;
+  }
+  if (error instanceof IntercomApiError) {
+    entry.status = error.status;
+  }
+
+  // Drop undefined fields to keep entries readable
+  for (const key of Object.keys(entry) as Array<keyof typeof entry>) {
+    if (entry[key] === undefined) {
+      delete entry[key];
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * CLI exit codes per error code (1 is used for unexpected errors)
+ */
+export const EXIT_CODES: Record<SyncErrorCode, number> = {
+  CONFIG: 2,
+  AUTH: 3,
+  NOT_FOUND: 4,
+  VALIDATION: 5,
+  RATE_LIMIT: 6,
+  API: 7,
+  LOCAL_PARSE: 8,
+  CONVERSION: 9,
+  CONFLICT: 10,
+  UPLOAD: 11,
+};
+
+/**
+ * Actionable hint per error code
+ */
+export const ERROR_HINTS: Record<SyncErrorCode, string> = {
+  CONFIG: 'Check the config file and command options',
+  AUTH: 'Check INTERCOM_ACCESS_TOKEN and that the app has Articles read & write permissions',
+  NOT_FOUND: 'The article may have been deleted in Intercom; run pull to flag orphaned files',
+  VALIDATION: 'Intercom rejected the data; check title, author_id and intercom_collection_id in front matter',
+  RATE_LIMIT: 'Rate limit exceeded; retry later or lower "concurrency" in the config',
+  API: 'Intercom returned an unexpected error; retry later',
+  LOCAL_PARSE: 'Fix the YAML front matter (or JSON config) of the file',
+  CONVERSION: 'The content could not be converted; check for unusual HTML/markdown in the article',
+  CONFLICT: 'Run pull and resolve, or push with --merge / --force',
+  UPLOAD: 'Check the imageUploader config, its credentials and that the storage is reachable',
+};
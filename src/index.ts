@@ -4,12 +4,45 @@
  */
 
 // Sync classes
-export { SyncFromIntercom } from './sync/sync-from-intercom';
-export { SyncToIntercom, type DryRunResult } from './sync/sync-to-intercom';
-export { IntercomClient } from './sync/intercom-client';
+export { SyncFromIntercom, type PullOptions } from './sync/sync-from-intercom';
+export { SyncToIntercom, type DryRunResult, type PushOptions } from './sync/sync-to-intercom';
+export { SyncStatus } from './sync/sync-status';
+export { IntercomClient, type IntercomClientOptions, REGION_BASE_URLS } from './sync/intercom-client';
+export {
+  getApiAdapter,
+  type ApiAdapter,
+  SUPPORTED_API_VERSIONS,
+  DEFAULT_API_VERSION,
+} from './sync/api-adapters';
+
+// Testing
+export {
+  FakeIntercomServer,
+  type FakeIntercomOptions,
+  type RecordedRequest,
+} from './testing/fake-intercom-server';
+export { FakeS3Server, type FakeS3Options, type StoredObject } from './testing/fake-s3-server';
+
+// Errors
+export {
+  IntercomSyncError,
+  IntercomApiError,
+  AuthError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  LocalParseError,
+  ConversionError,
+  ConflictError,
+  ConfigError,
+  UploadError,
+  EXIT_CODES,
+  ERROR_HINTS,
+  type SyncErrorCode,
+} from './errors';
 
 // Utilities
-export { htmlToMarkdown } from './utils/html-to-markdown';
+export { htmlToMarkdown, extractAttachments } from './utils/html-to-markdown';
 export { markdownToHtml } from './utils/markdown-to-html';
 export {
   parseMarkdown,
@@ -18,21 +51,72 @@ export {
   timestampToISO,
   stripImageSignatures,
   restoreImageSignatures,
+  normalizeHtml,
+  contentHash,
+  sanitizeSlug,
+  mergeFrontMatter,
+  isSameAttachments,
+  ATTACHMENTS_MARKER,
 } from './utils/markdown';
+export { generateSlug, transliterate, renderPathTemplate, DEFAULT_PATH_TEMPLATE } from './utils/file-paths';
 export {
   readArticle,
   writeArticle,
   deleteArticle,
   findArticleByIntercomId,
+  indexArticlesByIntercomId,
   getAllMarkdownFiles,
   loadConfig,
+  readSnapshot,
+  writeSnapshot,
 } from './utils/file-manager';
+export { threeWayMerge, mergeAttachments, type MergeResult } from './utils/merge';
+export { loadManifest, saveManifest } from './utils/manifest';
+export { readCollection, writeCollection, COLLECTION_FILE } from './utils/collections';
+export { getHelpCenterConfigs, isInHelpCenter } from './utils/help-centers';
+export { getLocaleContent } from './utils/article-locales';
+export {
+  downloadImages,
+  localizeImages,
+  resolveAssetLinks,
+  getAssetPath,
+  ASSETS_DIR,
+  type ImageFetcher,
+} from './utils/assets';
+export {
+  createImageUploader,
+  uploadLocalImages,
+  LocalDirectoryUploader,
+  S3Uploader,
+  type ImageUploader,
+  type UploadImage,
+} from './utils/image-uploaders';
 
 // Types
 export type {
   IntercomConfig,
+  IntercomRegion,
+  SlugStrategy,
   IntercomArticle,
+  ArticleLocaleContent,
+  ArticleAttachment,
   ArticleFrontMatter,
   LocalArticle,
   SyncResult,
+  SyncProgress,
+  PullConflictStrategy,
+  OrphanStrategy,
+  DeletionCandidate,
+  SyncManifest,
+  ManifestEntry,
+  IntercomCollection,
+  IntercomHelpCenter,
+  HelpCenterConfig,
+  ImageUploaderConfig,
+  LocalUploaderConfig,
+  S3UploaderConfig,
+  CollectionMetadata,
+  LocalCollection,
+  ArticleStatus,
+  ArticleSyncState,
 } from './types';
@@ -0,0 +1,131 @@
+import { IntercomArticle, IntercomCollection, IntercomHelpCenter } from '../types';
+import { ConfigError } from '../errors';
+
+type RawObject = Record<string, unknown>;
+
+/**
+ * Converts between an Intercom API version's payloads and the types used by the sync code
+ */
+export interface ApiAdapter {
+  normalizeArticle(raw: RawObject): IntercomArticle;
+  normalizeCollection(raw: RawObject): IntercomCollection;
+  normalizeHelpCenter(raw: RawObject): IntercomHelpCenter;
+  serializeArticle(data: RawObject): RawObject;
+}
+
+export const DEFAULT_API_VERSION = '2.10';
+
+/**
+ * 2.7 - 2.9: IDs may be returned as numbers, and translated_content carries a `type` key
+ * next to the locales
+ */
+const v27Adapter: ApiAdapter = {
+  normalizeArticle(raw) {
+    return {
+      ...raw,
+      id: toId(raw.id),
+      author_id: Number(raw.author_id),
+      parent_id: raw.parent_id == null ? undefined : toId(raw.parent_id),
+      parent_ids: Array.isArray(raw.parent_ids) ? raw.parent_ids.map(toId) : undefined,
+      default_locale: (raw.default_locale as string) || 'en',
+      translated_content: pickLocales(raw.translated_content),
+    } as IntercomArticle;
+  },
+
+  normalizeCollection(raw) {
+    return {
+      ...raw,
+      id: toId(raw.id),
+      workspace_id: toId(raw.workspace_id),
+      parent_id: raw.parent_id == null ? null : toId(raw.parent_id),
+      help_center_id: raw.help_center_id == null ? undefined : toId(raw.help_center_id),
+      default_locale: (raw.default_locale as string) || 'en',
+      translated_content: pickLocales(raw.translated_content),
+    } as IntercomCollection;
+  },
+
+  normalizeHelpCenter(raw) {
+    return {
+      ...raw,
+      id: toId(raw.id),
+      workspace_id: toId(raw.workspace_id),
+    } as IntercomHelpCenter;
+  },
+
+  serializeArticle(data) {
+    return data;
+  },
+};
+
+/**
+ * 2.10+: articles can belong to several parents (parent_ids), parent_id is an integer
+ * and must be sent as one
+ */
+const v210Adapter: ApiAdapter = {
+  normalizeArticle(raw) {
+    const parentIds = Array.isArray(raw.parent_ids) ? raw.parent_ids : [];
+    const parentId = raw.parent_id ?? parentIds[0];
+    return v27Adapter.normalizeArticle({ ...raw, parent_id: parentId });
+  },
+
+  normalizeCollection(raw) {
+    return v27Adapter.normalizeCollection(raw);
+  },
+
+  normalizeHelpCenter(raw) {
+    return v27Adapter.normalizeHelpCenter(raw);
+  },
+
+  serializeArticle(data) {
+    const parentId = data.parent_id;
+    if (typeof parentId === 'string' && /^\d+$/.test(parentId)) {
+      return { ...data, parent_id: Number(parentId) };
+    }
+    return data;
+  },
+};
+
+const ADAPTERS: Record<string, ApiAdapter> = {
+  '2.7': v27Adapter,
+  '2.8': v27Adapter,
+  '2.9': v27Adapter,
+  '2.10': v210Adapter,
+  '2.11': v210Adapter,
+  'Unstable': v210Adapter,
+};
+
+export const SUPPORTED_API_VERSIONS = Object.keys(ADAPTERS);
+
+/**
+ * Get the adapter for an Intercom-Version
+ */
+export function getApiAdapter(version: string): ApiAdapter {
+  const adapter = ADAPTERS[version];
+  if (!adapter) {
+    throw new ConfigError(
+      `Unsupported Intercom API version: ${version} (supported: ${SUPPORTED_API_VERSIONS.join(', ')})`
+    );
+  }
+  return adapter;
+}
+
+function toId(value: unknown): string {
+  return value == null ? '' : String(value);
+}
+
+/**
+ * Keep only the locale entries of translated_content
+ */
+function pickLocales<T>(translatedContent: unknown): Record<string, T> | undefined {
+  if (!translatedContent || typeof translatedContent !== 'object') {
+    return undefined;
+  }
+
+  const locales: Record<string, T> = {};
+  for (const [key, value] of Object.entries(translatedContent)) {
+    if (value && typeof value === 'object') {
+      locales[key] = value as T;
+    }
+  }
+  return locales;
+}
@@ -1,85 +1,232 @@
-import axios, { AxiosInstance } from 'axios';
-import { IntercomArticle, IntercomArticlesResponse, IntercomCollection, IntercomCollectionsResponse } from '../types';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { IntercomArticle, IntercomCollection, IntercomConfig, IntercomHelpCenter, IntercomRegion } from '../types';
+import { mapWithConcurrency, sleep } from '../utils/concurrency';
+import { fromAxiosError, ConfigError } from '../errors';
+import { ApiAdapter, getApiAdapter, DEFAULT_API_VERSION } from './api-adapters';
+
+export type IntercomClientOptions = Pick<
+  IntercomConfig,
+  'concurrency' | 'maxRetries' | 'requestTimeout' | 'region' | 'apiBaseUrl' | 'apiVersion'
+>;
+
+export const REGION_BASE_URLS: Record<IntercomRegion, string> = {
+  us: 'https://api.intercom.io',
+  eu: 'https://api.eu.intercom.io',
+  au: 'https://api.au.intercom.io',
+};
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_TIMEOUT = 30000;
+const BASE_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 30000;
+
+// Network errors worth retrying (no response received)
+const RETRYABLE_CODES = ['ECONNABORTED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED', 'ERR_NETWORK'];
 
 export class IntercomClient {
   private client: AxiosInstance;
+  private maxRetries: number;
+  private adapter: ApiAdapter;
+  readonly concurrency: number;
 
-  constructor(accessToken: string) {
+  constructor(accessToken: string, options: IntercomClientOptions = {}) {
+    const apiVersion = options.apiVersion || DEFAULT_API_VERSION;
+
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.adapter = getApiAdapter(apiVersion);
     this.client = axios.create({
-      baseURL: 'https://api.intercom.io',
+      baseURL: resolveBaseUrl(options),
+      timeout: options.requestTimeout ?? DEFAULT_TIMEOUT,
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Accept': 'application/json',
         'Content-Type': 'application/json',
-        'Intercom-Version': '2.10',
+        'Intercom-Version': apiVersion,
       },
     });
   }
 
   /**
-   * Fetch all articles from Intercom Help Center
+   * Send a request, retrying rate limits (429), server errors (5xx) and network errors
+   * with exponential backoff and jitter. Creates are only retried on 429, since the
+   * article may already have been created when a 5xx or network error occurs.
+   * Final failures are thrown as typed API errors (see errors.ts).
    */
-  async getAllArticles(): Promise<IntercomArticle[]> {
-    const articles: IntercomArticle[] = [];
-    let page = 1;
-    let hasMore = true;
-
-    while (hasMore) {
-      const response = await this.client.get<IntercomArticlesResponse>(
-        '/articles',
-        {
-          params: {
-            page,
-            per_page: 50,
-          },
+  private async request<T>(config: AxiosRequestConfig, articleId?: string): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.client.request<T>(config);
+        return response.data;
+      } catch (error) {
+        if (attempt >= this.maxRetries || !this.isRetryable(error, config.method)) {
+          throw fromAxiosError(error, { articleId });
         }
-      );
+        await sleep(this.getRetryDelay(error, attempt));
+      }
+    }
+  }
 
-      articles.push(...response.data.data);
+  private isRetryable(error: unknown, method?: string): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+
+    const status = error.response?.status;
+    if (status === 429) {
+      return true;
+    }
+    if (method?.toLowerCase() === 'post') {
+      return false;
+    }
+    if (status !== undefined) {
+      return status >= 500;
+    }
+    return RETRYABLE_CODES.includes(error.code || '');
+  }
+
+  /**
+   * Delay before the next attempt: until X-RateLimit-Reset for rate limits,
+   * otherwise exponential backoff with jitter
+   */
+  private getRetryDelay(error: unknown, attempt: number): number {
+    const jitter = Math.random() * BASE_RETRY_DELAY;
 
-      hasMore = page < response.data.pages.total_pages;
-      page++;
+    if (axios.isAxiosError(error) && error.response?.status === 429) {
+      const reset = Number(error.response.headers['x-ratelimit-reset']);
+      if (reset > 0) {
+        return Math.min(Math.max(reset * 1000 - Date.now(), 0), MAX_RETRY_DELAY) + jitter;
+      }
     }
 
-    return articles;
+    const backoff = BASE_RETRY_DELAY * 2 ** attempt;
+    return Math.min(backoff / 2 + Math.random() * backoff / 2, MAX_RETRY_DELAY) + jitter;
+  }
+
+  /**
+   * Fetch all pages of a list endpoint (first page, then the rest concurrently)
+   */
+  private async getAllPages<T>(
+    url: string,
+    normalize: (raw: Record<string, unknown>) => T,
+    onPage?: (page: number, totalPages: number) => void
+  ): Promise<T[]> {
+    const fetchPage = (page: number) => this.request<{
+      pages: { total_pages: number };
+      data: Record<string, unknown>[];
+    }>({
+      method: 'get',
+      url,
+      params: {
+        page,
+        per_page: 50,
+      },
+    });
+
+    const first = await fetchPage(1);
+    const totalPages = first.pages?.total_pages || 1;
+    onPage?.(1, totalPages);
+
+    const remainingPages = Array.from({ length: Math.max(totalPages - 1, 0) }, (_, i) => i + 2);
+    const rest = await mapWithConcurrency(remainingPages, this.concurrency, async page => {
+      const response = await fetchPage(page);
+      onPage?.(page, totalPages);
+      return response;
+    });
+
+    return [first, ...rest].flatMap(response => response.data.map(normalize));
+  }
+
+  /**
+   * Fetch all articles from Intercom Help Center
+   */
+  async getAllArticles(onPage?: (page: number, totalPages: number) => void): Promise<IntercomArticle[]> {
+    return this.getAllPages('/articles', raw => this.adapter.normalizeArticle(raw), onPage);
   }
 
   /**
    * Fetch all collections from Intercom Help Center
    */
   async getAllCollections(): Promise<IntercomCollection[]> {
-    const collections: IntercomCollection[] = [];
-    let page = 1;
-    let hasMore = true;
-
-    while (hasMore) {
-      const response = await this.client.get<IntercomCollectionsResponse>(
-        '/help_center/collections',
-        {
-          params: {
-            page,
-            per_page: 50,
-          },
-        }
-      );
+    return this.getAllPages('/help_center/collections', raw => this.adapter.normalizeCollection(raw));
+  }
+
+  /**
+   * Fetch all help centers of the workspace
+   */
+  async getAllHelpCenters(): Promise<IntercomHelpCenter[]> {
+    return this.getAllPages('/help_center/help_centers', raw => this.adapter.normalizeHelpCenter(raw));
+  }
+
+  /**
+   * Fetch a single collection by ID
+   */
+  async getCollection(collectionId: string): Promise<IntercomCollection> {
+    const raw = await this.request<Record<string, unknown>>({
+      method: 'get',
+      url: `/help_center/collections/${collectionId}`,
+    });
+    return this.adapter.normalizeCollection(raw);
+  }
 
-      collections.push(...response.data.data);
+  /**
+   * Create a new collection
+   */
+  async createCollection(data: {
+    name: string;
+    description?: string;
+    parent_id?: string | null;
+    help_center_id?: string;
+    translated_content?: IntercomCollection['translated_content'];
+  }): Promise<IntercomCollection> {
+    const raw = await this.request<Record<string, unknown>>({
+      method: 'post',
+      url: '/help_center/collections',
+      data,
+    });
+    return this.adapter.normalizeCollection(raw);
+  }
 
-      hasMore = page < response.data.pages.total_pages;
-      page++;
+  /**
+   * Update an existing collection
+   */
+  async updateCollection(
+    collectionId: string,
+    data: {
+      name?: string;
+      description?: string;
+      parent_id?: string | null;
+      translated_content?: IntercomCollection['translated_content'];
     }
+  ): Promise<IntercomCollection> {
+    const raw = await this.request<Record<string, unknown>>({
+      method: 'put',
+      url: `/help_center/collections/${collectionId}`,
+      data,
+    });
+    return this.adapter.normalizeCollection(raw);
+  }
 
-    return collections;
+  /**
+   * Delete a collection
+   */
+  async deleteCollection(collectionId: string): Promise<void> {
+    await this.request<unknown>({
+      method: 'delete',
+      url: `/help_center/collections/${collectionId}`,
+    });
   }
 
   /**
    * Fetch a single article by ID
    */
   async getArticle(articleId: string): Promise<IntercomArticle> {
-    const response = await this.client.get<IntercomArticle>(
-      `/articles/${articleId}`
-    );
-    return response.data;
+    const raw = await this.request<Record<string, unknown>>({
+      method: 'get',
+      url: `/articles/${articleId}`,
+    }, articleId);
+    return this.adapter.normalizeArticle(raw);
   }
 
   /**
@@ -88,14 +235,19 @@ export class IntercomClient {
   async createArticle(data: {
     title: string;
     body: string;
+    description?: string;
     author_id: number;
     state?: 'published' | 'draft';
     parent_id?: string;
     parent_type?: string;
     translated_content?: IntercomArticle['translated_content'];
   }): Promise<IntercomArticle> {
-    const response = await this.client.post<IntercomArticle>('/articles', data);
-    return response.data;
+    const raw = await this.request<Record<string, unknown>>({
+      method: 'post',
+      url: '/articles',
+      data: this.adapter.serializeArticle(data),
+    });
+    return this.adapter.normalizeArticle(raw);
   }
 
   /**
@@ -106,6 +258,7 @@ export class IntercomClient {
     data: {
       title?: string;
       body?: string;
+      description?: string;
       author_id?: number;
       state?: 'published' | 'draft';
       parent_id?: string;
@@ -113,17 +266,39 @@ export class IntercomClient {
       translated_content?: IntercomArticle['translated_content'];
     }
   ): Promise<IntercomArticle> {
-    const response = await this.client.put<IntercomArticle>(
-      `/articles/${articleId}`,
-      data
-    );
-    return response.data;
+    const raw = await this.request<Record<string, unknown>>({
+      method: 'put',
+      url: `/articles/${articleId}`,
+      data: this.adapter.serializeArticle(data),
+    }, articleId);
+    return this.adapter.normalizeArticle(raw);
   }
 
   /**
    * Delete an article
    */
   async deleteArticle(articleId: string): Promise<void> {
-    await this.client.delete(`/articles/${articleId}`);
+    await this.request<unknown>({
+      method: 'delete',
+      url: `/articles/${articleId}`,
+    }, articleId);
+  }
+}
+
+/**
+ * API base URL: explicit apiBaseUrl, else the region's endpoint (US by default)
+ */
+function resolveBaseUrl(options: IntercomClientOptions): string {
+  if (options.apiBaseUrl) {
+    return options.apiBaseUrl.replace(/\/+$/, '');
+  }
+
+  const region = (options.region || 'us').toLowerCase() as IntercomRegion;
+  const baseUrl = REGION_BASE_URLS[region];
+  if (!baseUrl) {
+    throw new ConfigError(
+      `Unknown Intercom region: ${options.region} (expected ${Object.keys(REGION_BASE_URLS).join(', ')})`
+    );
   }
+  return baseUrl;
 }
@@ -1,41 +1,197 @@
 import * as path from 'path';
 import { IntercomClient } from './intercom-client';
-import { IntercomConfig, IntercomArticle, IntercomCollection, SyncResult, ArticleFrontMatter } from '../types';
-import { writeArticle, findArticleByIntercomId, deleteArticle } from '../utils/file-manager';
-import { generateFilePath, timestampToISO } from '../utils/markdown';
-import { htmlToMarkdown } from '../utils/html-to-markdown';
+import {
+  IntercomConfig,
+  IntercomArticle,
+  IntercomCollection,
+  SyncResult,
+  ArticleFrontMatter,
+  LocalArticle,
+  PullConflictStrategy,
+  SyncManifest,
+  SyncProgress,
+  CollectionMetadata,
+  LocalCollection,
+  ArticleLocaleContent,
+} from '../types';
+import {
+  exists,
+  readArticle,
+  writeArticle,
+  indexArticlesByIntercomId,
+  deleteArticle,
+  archiveArticle,
+  getAllMarkdownFiles,
+  readSnapshot,
+  writeSnapshot,
+  deleteSnapshot,
+  getSideFilePath,
+} from '../utils/file-manager';
+import {
+  loadManifest,
+  saveManifest,
+  getManifestPath,
+  getManifestPathOwner,
+  setManifestEntry,
+  removeManifestEntry,
+  markdownHash,
+} from '../utils/manifest';
+import { timestampToISO, contentHash, sanitizeSlug, mergeFrontMatter, isSameAttachments } from '../utils/markdown';
+import { getPathOptions, renderPathTemplate, generateSlug } from '../utils/file-paths';
+import { htmlToMarkdown, extractAttachments } from '../utils/html-to-markdown';
+import { toErrorEntry, ConversionError, errorMessage } from '../errors';
+import { threeWayMerge, mergeAttachments } from '../utils/merge';
+import { trackProgress } from '../utils/concurrency';
+import { isInHelpCenter, isCollectionInHelpCenter } from '../utils/help-centers';
+import { getLocaleContent, getLocaleMetadata } from '../utils/article-locales';
+import { ImageFetcher, downloadImages, localizeImages, relinkAssets } from '../utils/assets';
+import { resolveUploadedImages } from '../utils/image-uploaders';
+import {
+  COLLECTION_FILE,
+  readCollection,
+  writeCollection,
+  removeCollectionFile,
+  getAllCollectionFiles,
+  buildCollectionPaths,
+} from '../utils/collections';
+
+export interface PullOptions {
+  /** Overwrite local files even if they were edited since the last pull */
+  force?: boolean;
+  /** What to do with local files edited since the last pull (default: skip) */
+  onConflict?: PullConflictStrategy;
+  /** Rewrite every article, even if its remote updated_at hasn't advanced since the last pull */
+  full?: boolean;
+  /** Called as each article of syncAll completes */
+  onProgress?: (progress: SyncProgress) => void;
+  /** Fetches images when config.downloadImages is set (default: HTTP GET) */
+  fetchImage?: ImageFetcher;
+}
 
 export class SyncFromIntercom {
   private client: IntercomClient;
   private config: IntercomConfig;
-  private collectionMap: Map<string, string> = new Map(); // id -> name
+  private options: PullOptions;
+  private collectionMap: Map<string, string> = new Map(); // id -> folder path
+  private collections: Map<string, IntercomCollection> = new Map();
+  private manifest: SyncManifest = { version: 1, articles: {} };
+  private fileIndex?: Promise<Map<string, string>>; // intercom_id:locale -> file, built once per pull
+  private pathOptions: ReturnType<typeof getPathOptions>;
 
-  constructor(config: IntercomConfig) {
+  constructor(config: IntercomConfig, options: PullOptions = {}) {
     this.config = config;
-    this.client = new IntercomClient(config.intercomAccessToken);
+    this.options = options;
+    this.client = new IntercomClient(config.intercomAccessToken, config);
+    this.pathOptions = getPathOptions(config);
   }
 
   /**
-   * Load collections and build a map from ID to name
+   * Load collections and build a map from ID to folder path (nested like the collections)
    */
-  private async loadCollections(): Promise<void> {
+  private async loadCollections(): Promise<IntercomCollection[]> {
     const collections = await this.client.getAllCollections();
+    this.collectionMap = buildCollectionPaths(collections);
+    this.collections = new Map(collections.map(collection => [collection.id, collection]));
+    return collections;
+  }
+
+  /**
+   * Write _collection.yml for each collection and locale
+   * Files left in an old folder (collection renamed in Intercom) are removed, and files of
+   * collections deleted in Intercom are handled like orphaned articles
+   */
+  private async writeCollections(collections: IntercomCollection[], result: SyncResult): Promise<void> {
+    const existingFiles = new Map<string, LocalCollection>(); // intercom_id:locale -> file
+    for (const file of await getAllCollectionFiles(this.config.articlesDir)) {
+      try {
+        const collection = await readCollection(file);
+        if (collection.metadata.intercom_id) {
+          existingFiles.set(`${collection.metadata.intercom_id}:${collection.metadata.locale}`, collection);
+        }
+      } catch {
+        // Unparseable files are reported by push; leave them alone here
+      }
+    }
+
+    const remoteIds = new Set(collections.map(collection => collection.id));
+    for (const collection of existingFiles.values()) {
+      if (!remoteIds.has(collection.metadata.intercom_id!) && !collection.metadata.orphaned) {
+        await this.pruneOrphanedCollection(collection, result);
+      }
+    }
+
     for (const collection of collections) {
-      // Use slug-friendly version of the name
-      const slugName = collection.name
-        .toLowerCase()
-        .replace(/[^\w\s-]/g, '') // Remove special characters except hyphens
-        .replace(/\s+/g, '-') // Replace spaces with hyphens
-        .replace(/-+/g, '-') // Replace multiple hyphens with single
-        .trim();
-      this.collectionMap.set(collection.id, slugName || collection.id);
+      if (!isCollectionInHelpCenter(collection, this.config)) {
+        continue;
+      }
+      const folder = this.getCollectionPath(collection.id);
+
+      for (const [locale, content] of this.getCollectionLocales(collection)) {
+        const filePath = path.join(this.config.articlesDir, locale, folder, COLLECTION_FILE);
+        const metadata: CollectionMetadata = {
+          intercom_id: collection.id,
+          locale,
+          name: content.name,
+          description: content.description,
+        };
+        if (locale === collection.default_locale) {
+          metadata.icon = collection.icon;
+          metadata.order = collection.order;
+        }
+        metadata.updated_at = timestampToISO(collection.updated_at);
+
+        const previousFile = existingFiles.get(`${collection.id}:${locale}`)?.filePath;
+        if (previousFile && previousFile !== filePath) {
+          await removeCollectionFile(previousFile);
+        }
+        await writeCollection(filePath, metadata);
+      }
     }
   }
 
   /**
-   * Get collection name by ID, falling back to ID if not found
+   * Handle the _collection.yml of a collection deleted in Intercom, per config.pruneOrphans
    */
-  private getCollectionName(collectionId: string): string {
+  private async pruneOrphanedCollection(collection: LocalCollection, result: SyncResult): Promise<void> {
+    const strategy = this.config.pruneOrphans || 'flag';
+    try {
+      if (strategy === 'delete') {
+        await removeCollectionFile(collection.filePath);
+      } else if (strategy === 'archive') {
+        await archiveArticle(this.config.articlesDir, collection.filePath);
+      } else {
+        await writeCollection(collection.filePath, { ...collection.metadata, orphaned: true });
+      }
+      result.orphaned++;
+    } catch (error) {
+      result.errors.push(toErrorEntry(error, { file: collection.filePath }));
+    }
+  }
+
+  /**
+   * Get name/description of a collection per locale (default locale first)
+   */
+  private getCollectionLocales(collection: IntercomCollection): Array<[string, { name: string; description?: string }]> {
+    const locales: Array<[string, { name: string; description?: string }]> = [
+      [collection.default_locale, { name: collection.name, description: collection.description }],
+    ];
+
+    for (const [locale, translation] of Object.entries(collection.translated_content || {})) {
+      if (locale === collection.default_locale || !translation.name) {
+        continue;
+      }
+      if (!this.config.supportedLocales || this.config.supportedLocales.includes(locale)) {
+        locales.push([locale, { name: translation.name, description: translation.description }]);
+      }
+    }
+
+    return locales;
+  }
+
+  /**
+   * Get collection folder path by ID, falling back to ID if not found
+   */
+  private getCollectionPath(collectionId: string): string {
     return this.collectionMap.get(collectionId) || collectionId;
   }
 
@@ -48,30 +204,42 @@ export class SyncFromIntercom {
       created: 0,
       updated: 0,
       skipped: 0,
+      orphaned: 0,
+      deleted: 0,
       errors: [],
+      conflicts: [],
     };
 
     try {
-      // Load collections first for name mapping
-      await this.loadCollections();
+      this.manifest = await loadManifest(this.config.articlesDir);
+      this.fileIndex = undefined;
+
+      // Load collections first for name mapping, and keep their metadata locally
+      const collections = await this.loadCollections();
+      await this.writeCollections(collections, result);
 
-      const articles = await this.client.getAllArticles();
+      const articles = (await this.client.getAllArticles())
+        .filter(article => isInHelpCenter(article, this.collections, this.config));
+      const tick = trackProgress(articles.length, this.options.onProgress);
 
       for (const article of articles) {
         try {
           await this.syncArticle(article, result);
         } catch (error) {
-          result.errors.push({
-            articleId: article.id,
-            error: error instanceof Error ? error.message : String(error),
-          });
+          result.errors.push(toErrorEntry(error, { articleId: article.id }));
         }
+        tick();
+      }
+
+      await this.pruneOrphans(new Set(articles.map(article => article.id)), result);
+
+      if (result.errors.length === 0) {
+        this.manifest.last_pull_at = new Date().toISOString();
       }
+      await saveManifest(this.config.articlesDir, this.manifest);
     } catch (error) {
       result.success = false;
-      result.errors.push({
-        error: error instanceof Error ? error.message : String(error),
-      });
+      result.errors.push(toErrorEntry(error));
     }
 
     return result;
@@ -86,21 +254,30 @@ export class SyncFromIntercom {
       created: 0,
       updated: 0,
       skipped: 0,
+      orphaned: 0,
+      deleted: 0,
       errors: [],
+      conflicts: [],
     };
 
     try {
+      this.manifest = await loadManifest(this.config.articlesDir);
+      this.fileIndex = undefined;
+
       // Load collections first for name mapping
       await this.loadCollections();
 
       const article = await this.client.getArticle(articleId);
+      if (!isInHelpCenter(article, this.collections, this.config)) {
+        // Synced by another help center
+        result.skipped++;
+        return result;
+      }
       await this.syncArticle(article, result);
+      await saveManifest(this.config.articlesDir, this.manifest);
     } catch (error) {
       result.success = false;
-      result.errors.push({
-        articleId,
-        error: error instanceof Error ? error.message : String(error),
-      });
+      result.errors.push(toErrorEntry(error, { articleId }));
     }
 
     return result;
@@ -113,112 +290,190 @@ export class SyncFromIntercom {
     article: IntercomArticle,
     result: SyncResult
   ): Promise<void> {
-    // Sync default locale (pass empty string if title/body are undefined)
-    await this.syncArticleLocale(
-      article,
-      article.default_locale,
-      article.title || '',
-      article.body || '',
-      article,
-      result
-    );
+    // Sync default locale
+    await this.syncArticleLocale(article, article.default_locale, getLocaleContent(article, article.default_locale)!, result);
 
     // Sync translated content
-    if (article.translated_content) {
-      for (const [locale, translation] of Object.entries(article.translated_content)) {
-        // Skip translations where both title and body are empty (not started)
-        if (!translation.title && !translation.body) {
-          continue;
-        }
-        // Sync all translations, or filter by supportedLocales if specified
-        if (!this.config.supportedLocales || this.config.supportedLocales.includes(locale)) {
-          await this.syncArticleLocale(
-            article,
-            locale,
-            translation.title || '',
-            translation.body || '',
-            article,
-            result
-          );
-        }
+    for (const locale of Object.keys(article.translated_content || {})) {
+      const translation = getLocaleContent(article, locale);
+      // Skip translations where both title and body are empty (not started)
+      if (locale === article.default_locale || !translation) {
+        continue;
+      }
+      // Sync all translations, or filter by supportedLocales if specified
+      if (!this.config.supportedLocales || this.config.supportedLocales.includes(locale)) {
+        await this.syncArticleLocale(article, locale, translation, result);
       }
     }
   }
 
   /**
-   * Sync article for a specific locale
+   * Sync article for a specific locale, with the locale's own status, author and updated_at
    */
   private async syncArticleLocale(
     article: IntercomArticle,
     locale: string,
-    title: string,
-    body: string,
-    baseArticle: IntercomArticle,
+    localeContent: ArticleLocaleContent,
     result: SyncResult
   ): Promise<void> {
-    // Check if file already exists
-    const existingFile = await findArticleByIntercomId(
-      this.config.articlesDir,
-      article.id
-    );
+    const { title, body } = localeContent;
 
-    // Generate file path using collection name for folder
+    // Folders follow the collection path (nested for sub-collections)
     const collectionId = article.parent_id || 'uncategorized';
-    const collectionName = collectionId === 'uncategorized'
+    const collectionPath = collectionId === 'uncategorized'
       ? 'uncategorized'
-      : this.getCollectionName(collectionId);
-    // Use title for slug, or fallback to article ID if title is empty
-    const slug = title
-      ? title.replace(/\s+/g, '-')
-      : `article-${article.id}`;
-    const relativePath = generateFilePath(locale, collectionName, slug);
-    const filePath = path.join(this.config.articlesDir, relativePath);
-
-    // Delete old file if title changed (different path)
-    if (existingFile && existingFile !== filePath) {
-      await deleteArticle(existingFile);
+      : this.getCollectionPath(collectionId);
+
+    // Check if file already exists
+    const existingFile = await this.findExistingFile(article.id, locale);
+
+    // Incremental pull: skip locales whose remote updated_at hasn't advanced
+    // (unless the file has to move, e.g. its collection was renamed or nested)
+    if (
+      !this.options.full &&
+      !this.options.force &&
+      existingFile &&
+      path.dirname(existingFile) === path.join(this.config.articlesDir, locale, collectionPath) &&
+      await this.isUpToDate(article.id, locale, localeContent.updated_at, existingFile)
+    ) {
+      // Entries recorded before metadata was kept get it now (the remote locale hasn't changed since)
+      const entry = this.manifest.articles[article.id]?.[locale];
+      if (entry && !entry.metadata) {
+        entry.metadata = getLocaleMetadata(article, locale);
+      }
+      result.skipped++;
+      return;
+    }
+
+    const existing = existingFile ? await readArticle(existingFile) : null;
+    const filePath = await this.getFilePath(article.id, locale, title, collectionPath, existing);
+
+    // Convert HTML to Markdown
+    let markdownBody: string;
+    try {
+      markdownBody = htmlToMarkdown(body);
+    } catch (error) {
+      throw new ConversionError(`Failed to convert article ${article.id} (${locale}) to markdown: ${errorMessage(error)}`, {
+        articleId: article.id,
+        locale,
+      });
+    }
+
+    // Point images at downloaded copies, relative to the existing file for comparisons
+    // (links are rewritten relative to the new path on write)
+    if (this.config.downloadImages) {
+      await downloadImages(markdownBody, body, article.id, this.config.articlesDir, this.manifest, this.options.fetchImage);
+      markdownBody = localizeImages(markdownBody, article.id, existingFile || filePath, this.config.articlesDir, this.manifest);
     }
+    let content = markdownBody;
 
     // Prepare front matter (keep original collection ID for reference)
-    const frontMatter: ArticleFrontMatter = {
+    const remoteFrontMatter: ArticleFrontMatter = {
       intercom_id: article.id,
       intercom_collection_id: collectionId,
       locale,
-      updated_at: timestampToISO(baseArticle.updated_at),
-      status: baseArticle.state,
+      updated_at: timestampToISO(localeContent.updated_at),
+      status: localeContent.state,
       title,
-      author_id: baseArticle.author_id,
+      description: localeContent.description,
+      author_id: localeContent.author_id,
     };
 
+    // Attachments are kept in front matter instead of the body
+    const attachments = extractAttachments(body);
+    if (attachments.length > 0) {
+      remoteFrontMatter.attachments = attachments;
+    }
+
     // Add translations map for default locale
-    if (locale === baseArticle.default_locale && baseArticle.translated_content) {
-      frontMatter.translations = {};
-      for (const translationLocale of Object.keys(baseArticle.translated_content)) {
+    if (locale === article.default_locale && article.translated_content) {
+      const translations: Record<string, string> = {};
+      remoteFrontMatter.translations = translations;
+      for (const translationLocale of Object.keys(article.translated_content)) {
         // Include all translations, or filter by supportedLocales if specified
         if (!this.config.supportedLocales || this.config.supportedLocales.includes(translationLocale)) {
-          const translation = baseArticle.translated_content[translationLocale];
+          const translation = article.translated_content[translationLocale];
           // Skip translations where both title and body are empty (not started)
-          if (!translation.title && !translation.body) {
+          if (translationLocale === article.default_locale || (!translation.title && !translation.body)) {
             continue;
           }
-          // Use title for slug, or fallback to article ID if title is empty
-          const translationSlug = translation.title
-            ? translation.title.toLowerCase().replace(/\s+/g, '-')
-            : `article-${baseArticle.id}`;
-          frontMatter.translations[translationLocale] = generateFilePath(
+          const translationFile = await this.findExistingFile(article.id, translationLocale);
+          const translationPath = await this.getFilePath(
+            article.id,
             translationLocale,
-            collectionName,
-            translationSlug
+            translation.title || '',
+            collectionPath,
+            translationFile ? await readArticle(translationFile) : null
           );
+          translations[translationLocale] = path.relative(this.config.articlesDir, translationPath);
         }
       }
     }
 
-    // Convert HTML to Markdown
-    const markdownBody = htmlToMarkdown(body);
+    // Keep custom front-matter keys of the existing file
+    const frontMatter = existing
+      ? mergeFrontMatter(existing.frontMatter, remoteFrontMatter)
+      : remoteFrontMatter;
+
+    // Protect local edits that haven't been pushed yet
+    if (existingFile && existing && !this.options.force) {
+      const local = existing.content.trim();
+      // Remote markdown carries the URLs of uploaded images, so local images are compared as those
+      const resolved = (await resolveUploadedImages(local, existingFile, this.manifest)).trim();
+
+      const remoteChanged = resolved !== markdownBody || !isSameAttachments(existing.frontMatter.attachments, attachments);
+      if (remoteChanged && await this.hasLocalChanges(existing, article.id)) {
+        const resolution = this.options.onConflict || 'skip';
+        result.conflicts.push({ file: existingFile, articleId: article.id, resolution });
+
+        if (resolution === 'skip') {
+          result.skipped++;
+          return;
+        }
+
+        if (resolution === 'side-file') {
+          const sideFile = getSideFilePath(existingFile);
+          await writeArticle(sideFile, frontMatter, relinkAssets(markdownBody, sideFile, this.config.articlesDir));
+          result.skipped++;
+          return;
+        }
+
+        const baseHtml = await readSnapshot(this.config.articlesDir, existingFile);
+        const base = baseHtml === null ? '' : this.toLocalMarkdown(baseHtml, existingFile, article.id);
+        content = threeWayMerge(base, local, markdownBody).merged;
+        // Attachments only changed locally are kept (remote ones win when both changed)
+        const merged = mergeAttachments(
+          baseHtml === null ? undefined : extractAttachments(baseHtml),
+          existing.frontMatter.attachments,
+          attachments
+        ).attachments;
+        if (merged.length > 0) {
+          frontMatter.attachments = merged;
+        } else {
+          delete frontMatter.attachments;
+        }
+      }
+    }
+
+    // Delete old file if the path changed (collection moved or slug pinned)
+    if (existingFile && existingFile !== filePath) {
+      await deleteArticle(existingFile);
+      await deleteSnapshot(this.config.articlesDir, existingFile);
+    }
 
     // Write to file
-    await writeArticle(filePath, frontMatter, markdownBody);
+    content = relinkAssets(content, filePath, this.config.articlesDir);
+    await writeArticle(filePath, frontMatter, content);
+
+    // Keep the remote HTML as the base snapshot for conflict detection on push
+    await writeSnapshot(this.config.articlesDir, filePath, body);
+
+    setManifestEntry(this.manifest, this.config.articlesDir, article.id, locale, filePath, {
+      updated_at: frontMatter.updated_at,
+      remote_hash: contentHash(body),
+      local_hash: markdownHash(content, frontMatter.attachments),
+      metadata: getLocaleMetadata(article, locale),
+    });
 
     if (existingFile) {
       result.updated++;
@@ -226,4 +481,159 @@ export class SyncFromIntercom {
       result.created++;
     }
   }
+
+  /**
+   * Handle local files whose article no longer exists in Intercom
+   */
+  private async pruneOrphans(remoteIds: Set<string>, result: SyncResult): Promise<void> {
+    const strategy = this.config.pruneOrphans || 'flag';
+    const files = await getAllMarkdownFiles(this.config.articlesDir);
+
+    for (const file of files) {
+      try {
+        const local = await readArticle(file);
+        const intercomId = local.frontMatter.intercom_id;
+        if (!intercomId || remoteIds.has(intercomId) || local.frontMatter.orphaned) {
+          continue;
+        }
+
+        if (strategy === 'delete') {
+          await deleteArticle(file);
+          await deleteSnapshot(this.config.articlesDir, file);
+        } else if (strategy === 'archive') {
+          await archiveArticle(this.config.articlesDir, file);
+          await deleteSnapshot(this.config.articlesDir, file);
+        } else {
+          await writeArticle(file, { ...local.frontMatter, orphaned: true }, local.content);
+        }
+
+        removeManifestEntry(this.manifest, intercomId);
+        result.orphaned++;
+      } catch (error) {
+        result.errors.push(toErrorEntry(error, { file }));
+      }
+    }
+  }
+
+  /**
+   * Check whether an article locale was already pulled at its current remote updated_at,
+   * to the file it would be written to
+   * (entries without updated_at fall back to the time of the last successful pull)
+   */
+  private async isUpToDate(
+    intercomId: string,
+    locale: string,
+    updatedAt: number,
+    filePath: string
+  ): Promise<boolean> {
+    const entry = this.manifest.articles[intercomId]?.[locale];
+    const syncedAt = entry?.updated_at || this.manifest.last_pull_at;
+    if (!entry || !syncedAt || new Date(syncedAt).getTime() < updatedAt * 1000) {
+      return false;
+    }
+    const entryPath = path.join(this.config.articlesDir, entry.path);
+    return entryPath === filePath && exists(entryPath);
+  }
+
+  /**
+   * Get the file path of an article locale
+   * Existing files keep their file name, so title edits in Intercom don't rename them, unless their
+   * front matter pins a slug; new files are named by the path template and slug strategy.
+   * Names taken by another article or locale get the article ID appended (e.g. "{slug}-{id}.md").
+   */
+  private async getFilePath(
+    intercomId: string,
+    locale: string,
+    title: string,
+    collectionPath: string,
+    existing: LocalArticle | null
+  ): Promise<string> {
+    const folder = path.join(this.config.articlesDir, locale, collectionPath);
+    const pinnedSlug = existing?.frontMatter.slug;
+
+    let filePath: string;
+    if (existing && !pinnedSlug) {
+      filePath = path.join(folder, path.basename(existing.filePath));
+    } else {
+      const { template, slugStrategy } = this.pathOptions;
+      const slug = pinnedSlug ? sanitizeSlug(String(pinnedSlug)) : generateSlug(title, intercomId, slugStrategy);
+      filePath = path.join(this.config.articlesDir, renderPathTemplate(template, { locale, collection: collectionPath, id: intercomId, slug }));
+    }
+
+    if (await this.isPathTaken(filePath, intercomId, locale)) {
+      const { dir, name, ext } = path.parse(filePath);
+      return path.join(dir, `${name}-${intercomId}${ext}`);
+    }
+    return filePath;
+  }
+
+  /**
+   * Check whether a file path belongs to another article locale, per the manifest or the file's front matter
+   * (files that can't be read, or without intercom_id, belong to someone else too)
+   */
+  private async isPathTaken(filePath: string, intercomId: string, locale: string): Promise<boolean> {
+    const owner = getManifestPathOwner(this.manifest, this.config.articlesDir, filePath);
+    if (owner) {
+      return owner !== `${intercomId}:${locale}`;
+    }
+    if (!(await exists(filePath))) {
+      return false;
+    }
+    try {
+      const { frontMatter } = await readArticle(filePath);
+      return frontMatter.intercom_id !== intercomId || frontMatter.locale !== locale;
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Find the local file of an article locale
+   * Uses the manifest, falling back to the front matter of files not recorded yet (read once per pull)
+   */
+  private async findExistingFile(intercomId: string, locale: string): Promise<string | null> {
+    const manifestPath = getManifestPath(this.manifest, this.config.articlesDir, intercomId, locale);
+    if (manifestPath && await exists(manifestPath)) {
+      return manifestPath;
+    }
+
+    if (!this.fileIndex) {
+      this.fileIndex = indexArticlesByIntercomId(this.config.articlesDir);
+    }
+    const indexedPath = (await this.fileIndex).get(`${intercomId}:${locale}`);
+    return indexedPath && await exists(indexedPath) ? indexedPath : null;
+  }
+
+  /**
+   * Convert the base snapshot of a local file to markdown as it would be pulled to that file
+   */
+  private toLocalMarkdown(baseHtml: string, filePath: string, intercomId: string): string {
+    const markdown = htmlToMarkdown(baseHtml);
+    return this.config.downloadImages
+      ? localizeImages(markdown, intercomId, filePath, this.config.articlesDir, this.manifest)
+      : markdown;
+  }
+
+  /**
+   * Check whether a local file was edited since the last pull
+   * Compares body and attachments against the base snapshot (local images as their uploaded URLs),
+   * then the manifest hash; with neither (e.g. the first pull of a clone), any difference from the remote
+   * version counts as a local edit, so the file is protected
+   */
+  private async hasLocalChanges(existing: LocalArticle, intercomId: string): Promise<boolean> {
+    const baseHtml = await readSnapshot(this.config.articlesDir, existing.filePath);
+    if (baseHtml !== null) {
+      const local = await resolveUploadedImages(existing.content, existing.filePath, this.manifest);
+      return local.trim() !== this.toLocalMarkdown(baseHtml, existing.filePath, intercomId) ||
+        !isSameAttachments(existing.frontMatter.attachments, extractAttachments(baseHtml));
+    }
+
+    const locale = existing.frontMatter.locale;
+    const entry = this.manifest.articles[intercomId]?.[locale];
+    if (entry?.local_hash) {
+      return markdownHash(existing.content, existing.frontMatter.attachments) !== entry.local_hash;
+    }
+
+    return true;
+  }
 }
@@ -0,0 +1,207 @@
+import * as path from 'path';
+import { IntercomClient } from './intercom-client';
+import {
+  IntercomConfig,
+  IntercomArticle,
+  ArticleMetadata,
+  ArticleStatus,
+  ArticleSyncState,
+  LocalArticle,
+  SyncManifest,
+} from '../types';
+import { readArticle, getAllMarkdownFiles, readSnapshot } from '../utils/file-manager';
+import { isSameAttachments, stripImageSignatures } from '../utils/markdown';
+import { htmlToMarkdown, extractAttachments } from '../utils/html-to-markdown';
+import { errorMessage } from '../errors';
+import { isInHelpCenter } from '../utils/help-centers';
+import { getLocaleContent, getLocaleMetadata, getMetadataChanges } from '../utils/article-locales';
+import { loadManifest, markdownHash, isRemoteChangedSince } from '../utils/manifest';
+import { resolveAssetLinks } from '../utils/assets';
+import { resolveUploadedImages } from '../utils/image-uploaders';
+
+export class SyncStatus {
+  private client: IntercomClient;
+  private config: IntercomConfig;
+
+  constructor(config: IntercomConfig) {
+    this.config = config;
+    this.client = new IntercomClient(config.intercomAccessToken, config);
+  }
+
+  /**
+   * Classify every local and remote article locale
+   */
+  async getStatus(): Promise<ArticleStatus[]> {
+    const statuses: ArticleStatus[] = [];
+
+    // With help centers, only articles synced by this help center count as remote
+    const collections = this.config.helpCenterId ? await this.client.getAllCollections() : [];
+    const collectionsById = new Map(collections.map(collection => [collection.id, collection]));
+
+    const remoteArticles = new Map<string, IntercomArticle>();
+    for (const article of await this.client.getAllArticles()) {
+      if (isInHelpCenter(article, collectionsById, this.config)) {
+        remoteArticles.set(article.id, article);
+      }
+    }
+
+    // Local files, keyed by intercom_id + locale
+    const seen = new Set<string>();
+    const files = await getAllMarkdownFiles(this.config.articlesDir);
+    const manifest = await loadManifest(this.config.articlesDir);
+
+    for (const file of files) {
+      let local: LocalArticle;
+      try {
+        local = await readArticle(file);
+      } catch (error) {
+        // Files that fail to parse are listed, without stopping the other files
+        const locale = path.relative(this.config.articlesDir, file).split(path.sep)[0];
+        statuses.push({ state: 'invalid', locale, title: file, file, error: errorMessage(error) });
+        continue;
+      }
+      const { intercom_id: intercomId, locale } = local.frontMatter;
+      const title = local.frontMatter.title || file;
+
+      if (!intercomId) {
+        statuses.push({ state: 'local-only', locale, title, file });
+        continue;
+      }
+
+      seen.add(`${intercomId}:${locale}`);
+
+      const remote = remoteArticles.get(intercomId);
+      if (!remote) {
+        statuses.push({ state: 'remote-deleted', locale, title, intercomId, file });
+        continue;
+      }
+
+      const remoteContent = getLocaleContent(remote, locale);
+      if (!remoteContent) {
+        statuses.push({ state: 'local-modified', locale, title, intercomId, file });
+        continue;
+      }
+
+      const state = await this.classify(local, remote, remoteContent.body, remoteContent.updated_at, manifest);
+      statuses.push({ state, locale, title, intercomId, file });
+    }
+
+    // Remote locales without a local file
+    for (const remote of remoteArticles.values()) {
+      for (const locale of this.getRemoteLocales(remote)) {
+        if (!seen.has(`${remote.id}:${locale}`)) {
+          const content = getLocaleContent(remote, locale);
+          statuses.push({
+            state: 'remote-only',
+            locale,
+            title: content?.title || `article-${remote.id}`,
+            intercomId: remote.id,
+          });
+        }
+      }
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Compare local and remote content (body and attachments) against the base snapshot, and metadata
+   * (title, status, description, author and collection) against the manifest
+   * Without a snapshot, the manifest hashes tell which side changed, like on pull and push: the remote
+   * side by remote_hash or updated_at (the front-matter updated_at without an entry), the local side by
+   * local_hash (changed when there's none)
+   * Links to downloaded and uploaded images are compared as their URLs
+   */
+  private async classify(
+    local: LocalArticle,
+    remote: IntercomArticle,
+    remoteHtml: string,
+    remoteUpdatedAt: number,
+    manifest: SyncManifest
+  ): Promise<ArticleSyncState> {
+    const localContent = await resolveUploadedImages(resolveAssetLinks(local.content, manifest), local.filePath, manifest);
+    const localMarkdown = normalizeMarkdown(localContent);
+    const remoteMarkdown = normalizeMarkdown(htmlToMarkdown(remoteHtml));
+    const localAttachments = local.frontMatter.attachments;
+    const remoteAttachments = extractAttachments(remoteHtml);
+
+    // Metadata is compared from the manifest (files synced before it was recorded compare nothing)
+    const { locale } = local.frontMatter;
+    const entry = manifest.articles[remote.id]?.[locale];
+    const baseMetadata = entry?.metadata;
+    const remoteMetadata = getLocaleMetadata(remote, locale);
+    let localMetadataChanged = false;
+    let remoteMetadataChanged = false;
+    let metadataDiffers = false;
+    if (baseMetadata && remoteMetadata) {
+      const collectionId = local.frontMatter.intercom_collection_id;
+      const localMetadata: ArticleMetadata = {
+        title: local.frontMatter.title ?? baseMetadata.title,
+        state: local.frontMatter.status || 'draft',
+        description: local.frontMatter.description ?? baseMetadata.description,
+        author_id: local.frontMatter.author_id || baseMetadata.author_id,
+        parent_id: collectionId && collectionId !== 'uncategorized' ? collectionId : null,
+      };
+      localMetadataChanged = getMetadataChanges(baseMetadata, localMetadata).length > 0;
+      remoteMetadataChanged = getMetadataChanges(baseMetadata, remoteMetadata).length > 0;
+      metadataDiffers = getMetadataChanges(localMetadata, remoteMetadata).length > 0;
+    }
+
+    if (localMarkdown === remoteMarkdown && isSameAttachments(localAttachments, remoteAttachments) && !metadataDiffers) {
+      return 'unchanged';
+    }
+
+    const baseHtml = await readSnapshot(this.config.articlesDir, local.filePath);
+    let localChanged: boolean;
+    let remoteChanged: boolean;
+    if (baseHtml === null) {
+      const localUpdatedAt = local.frontMatter.updated_at;
+      localChanged = !entry?.local_hash || markdownHash(local.content, localAttachments) !== entry.local_hash;
+      remoteChanged = entry
+        ? isRemoteChangedSince(entry, remoteHtml, remoteUpdatedAt)
+        : !localUpdatedAt || new Date(localUpdatedAt).getTime() !== remoteUpdatedAt * 1000;
+    } else {
+      const baseMarkdown = normalizeMarkdown(htmlToMarkdown(baseHtml));
+      const baseAttachments = extractAttachments(baseHtml);
+      localChanged = localMarkdown !== baseMarkdown || !isSameAttachments(localAttachments, baseAttachments);
+      remoteChanged = remoteMarkdown !== baseMarkdown || !isSameAttachments(remoteAttachments, baseAttachments);
+    }
+    localChanged = localChanged || localMetadataChanged;
+    remoteChanged = remoteChanged || remoteMetadataChanged;
+
+    if (localChanged && remoteChanged) {
+      return 'both-modified';
+    }
+    return remoteChanged ? 'remote-modified' : 'local-modified';
+  }
+
+  /**
+   * Get locales of a remote article that pull would write
+   */
+  private getRemoteLocales(article: IntercomArticle): string[] {
+    const locales = [article.default_locale];
+
+    for (const [locale, translation] of Object.entries(article.translated_content || {})) {
+      // Skip translations where both title and body are empty (not started)
+      if (locale === article.default_locale || (!translation.title && !translation.body)) {
+        continue;
+      }
+      if (!this.config.supportedLocales || this.config.supportedLocales.includes(locale)) {
+        locales.push(locale);
+      }
+    }
+
+    return locales;
+  }
+}
+
+/**
+ * Normalize markdown for comparison (signed image URLs and whitespace are noise)
+ */
+function normalizeMarkdown(markdown: string): string {
+  return stripImageSignatures(markdown)
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+}
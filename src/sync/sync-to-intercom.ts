@@ -1,13 +1,89 @@
 import * as path from 'path';
 import { IntercomClient } from './intercom-client';
-import { IntercomConfig, SyncResult, LocalArticle, IntercomArticle } from '../types';
-import { readArticle, getAllMarkdownFiles } from '../utils/file-manager';
+import {
+  IntercomConfig,
+  SyncResult,
+  LocalArticle,
+  IntercomArticle,
+  IntercomCollection,
+  LocalCollection,
+  DeletionCandidate,
+  SyncProgress,
+  SyncManifest,
+  ArticleMetadata,
+} from '../types';
+import {
+  readArticle,
+  writeArticle,
+  deleteArticle,
+  exists,
+  getAllMarkdownFiles,
+  getDeletedSnapshotFiles,
+  readSnapshot,
+  writeSnapshot,
+  deleteSnapshot,
+  moveSnapshot,
+} from '../utils/file-manager';
 import { markdownToHtml } from '../utils/markdown-to-html';
+import { contentHash, timestampToISO, isSameAttachments } from '../utils/markdown';
+import {
+  loadManifest,
+  saveManifest,
+  getManifestPath,
+  setManifestEntry,
+  removeManifestEntry,
+  markdownHash,
+  isRemoteChangedSince,
+} from '../utils/manifest';
+import { mapWithConcurrency, trackProgress } from '../utils/concurrency';
+import { htmlToMarkdown, extractAttachments } from '../utils/html-to-markdown';
+import { isCollectionInHelpCenter, isInHelpCenter } from '../utils/help-centers';
+import { getLocaleMetadata, getMetadataChanges } from '../utils/article-locales';
+import { toErrorEntry, ConfigError, ConflictError, ConversionError, LocalParseError, NotFoundError, errorMessage } from '../errors';
+import { threeWayMerge, mergeAttachments, hasConflictMarkers } from '../utils/merge';
+import { localizeImages, relinkAssets, resolveAssetLinks } from '../utils/assets';
+import {
+  ImageUploader,
+  createImageUploader,
+  resolveUploadedImages,
+  uploadLocalImages,
+} from '../utils/image-uploaders';
+import {
+  readCollection,
+  writeCollection,
+  getAllCollectionFiles,
+  getCollectionFileForArticle,
+  buildCollectionPaths,
+} from '../utils/collections';
+
+type ArticleData = Parameters<IntercomClient['createArticle']>[0];
+type CollectionData = Parameters<IntercomClient['createCollection']>[0];
+
+/**
+ * Files of an article moved to another collection folder: the new collection, and where each file goes
+ */
+interface CollectionMove {
+  collectionId: string;
+  moves: Array<{ article: LocalArticle; from: string; to: string }>;
+}
+
+export interface PushOptions {
+  /** Push even if the remote article changed since the last pull */
+  force?: boolean;
+  /** Try a three-way merge when the remote article changed since the last pull */
+  merge?: boolean;
+  /** Called as each article of syncAll completes */
+  onProgress?: (progress: SyncProgress) => void;
+  /** Hosts local images (default: created from config.imageUploader) */
+  uploader?: ImageUploader;
+}
 
 export interface DryRunResult {
   title: string;
   intercomId?: string;
   isNew: boolean;
+  /** Whether pushing would change nothing in Intercom */
+  unchanged: boolean;
   currentHtml?: string;
   newHtml: string;
   translations: {
@@ -15,15 +91,25 @@ export interface DryRunResult {
     currentHtml?: string;
     newHtml: string;
   }[];
+  /** Locales whose remote content changed since the last pull */
+  remoteChanged: string[];
+  /** Collection the article moves to, when its file was moved to another collection folder */
+  movedToCollection?: string;
 }
 
 export class SyncToIntercom {
   private client: IntercomClient;
   private config: IntercomConfig;
+  private options: PushOptions;
+  private manifestQueue: Promise<void> = Promise.resolve();
+  private remoteCollections?: Promise<IntercomCollection[]>;
+  private assetManifest?: Promise<SyncManifest>;
+  private uploader?: ImageUploader;
 
-  constructor(config: IntercomConfig) {
+  constructor(config: IntercomConfig, options: PushOptions = {}) {
     this.config = config;
-    this.client = new IntercomClient(config.intercomAccessToken);
+    this.options = options;
+    this.client = new IntercomClient(config.intercomAccessToken, config);
   }
 
   /**
@@ -58,53 +144,329 @@ export class SyncToIntercom {
       created: 0,
       updated: 0,
       skipped: 0,
+      orphaned: 0,
+      deleted: 0,
       errors: [],
+      conflicts: [],
     };
 
     try {
-      const files = await getAllMarkdownFiles(this.config.articlesDir);
+      // Collections first, so new articles can be created in new collections
+      await this.syncCollections(result);
 
-      // Group files by intercom_id (to handle translations together)
-      const articleGroups = new Map<string | undefined, LocalArticle[]>();
-      
-      for (const file of files) {
-        try {
-          const article = await readArticle(file);
-          const id = article.frontMatter.intercom_id;
-          
-          if (!articleGroups.has(id)) {
-            articleGroups.set(id, []);
-          }
-          articleGroups.get(id)!.push(article);
-        } catch (error) {
-          result.errors.push({
-            file,
-            error: error instanceof Error ? error.message : String(error),
-          });
-        }
-      }
+      const groups = await this.loadArticleGroups(result);
+      const tick = trackProgress(groups.length, this.options.onProgress);
 
-      // Sync each article group
-      for (const [intercomId, articles] of articleGroups) {
+      // Sync article groups concurrently
+      await mapWithConcurrency(groups, this.client.concurrency, async articles => {
+        const intercomId = articles[0].frontMatter.intercom_id;
         try {
           await this.syncArticleGroup(intercomId, articles, result);
         } catch (error) {
-          result.errors.push({
+          result.errors.push(toErrorEntry(error, {
             articleId: intercomId,
-            error: error instanceof Error ? error.message : String(error),
-          });
+            file: intercomId ? undefined : articles[0].filePath,
+          }));
         }
-      }
+        tick();
+      });
     } catch (error) {
       result.success = false;
-      result.errors.push({
-        error: error instanceof Error ? error.message : String(error),
-      });
+      result.errors.push(toErrorEntry(error));
     }
 
     return result;
   }
 
+  /**
+   * Create or update collections from their _collection.yml files
+   * Files are grouped by intercom_id; new files join the collection of the same folder in
+   * other locales. New collections get their intercom_id written to all their files.
+   * The parent folder decides the parent collection, so nested folders become nested collections.
+   */
+  async syncCollections(result: SyncResult): Promise<void> {
+    const counts = { created: 0, updated: 0 };
+    result.collections = counts;
+
+    const groups = await this.loadCollectionGroups(result);
+    const byFolder = new Map(groups.map(group => [group.folder, group]));
+
+    const remoteCollections = new Map<string, IntercomCollection>();
+    if (groups.some(group => group.collections[0].metadata.intercom_id)) {
+      for (const collection of await this.getRemoteCollections()) {
+        remoteCollections.set(collection.id, collection);
+      }
+    }
+
+    // Groups are sorted parents first, so new parents have an intercom_id before their children
+    for (const { folder, collections } of groups) {
+      const intercomId = collections[0].metadata.intercom_id;
+      // Collections deleted in Intercom are flagged by pull and must not be re-created
+      if (collections.some(collection => collection.metadata.orphaned)) {
+        continue;
+      }
+
+      try {
+        const remote = intercomId ? remoteCollections.get(intercomId) : undefined;
+        if (intercomId && !remote) {
+          throw new NotFoundError(`Collection ${intercomId} not found in Intercom`, 404, undefined, {
+            file: collections[0].filePath,
+          });
+        }
+
+        if (remote && !isCollectionInHelpCenter(remote, this.config)) {
+          throw new ConfigError(
+            `Collection ${intercomId} belongs to help center ${remote.help_center_id}, not ${this.config.helpCenterId}`,
+            { file: collections[0].filePath }
+          );
+        }
+
+        const defaultLocale = remote?.default_locale || this.config.defaultLocale;
+        const defaultCollection = collections.find(c => c.metadata.locale === defaultLocale) || collections[0];
+        const data = this.buildCollectionData(collections, defaultCollection);
+        if (!remote && this.config.helpCenterId) {
+          data.help_center_id = this.config.helpCenterId;
+        }
+
+        const parentId = await this.getParentCollectionId(folder, byFolder);
+        if (parentId !== undefined) {
+          data.parent_id = parentId;
+        }
+
+        if (intercomId && remote) {
+          if (!this.isCollectionUnchanged(data, remote)) {
+            await this.client.updateCollection(intercomId, data);
+            counts.updated++;
+          }
+        } else {
+          const created = await this.client.createCollection(data);
+          for (const collection of collections) {
+            collection.metadata.intercom_id = created.id;
+            await writeCollection(collection.filePath, collection.metadata);
+          }
+          counts.created++;
+        }
+      } catch (error) {
+        result.errors.push(toErrorEntry(error, { file: collections[0].filePath }));
+      }
+    }
+  }
+
+  /**
+   * Read all _collection.yml files and group them by collection, parents first
+   * folder is the collection folder relative to the locale directory, e.g. "getting-started/setup"
+   */
+  private async loadCollectionGroups(
+    result: SyncResult
+  ): Promise<Array<{ folder: string; collections: LocalCollection[] }>> {
+    const collections: LocalCollection[] = [];
+    for (const file of await getAllCollectionFiles(this.config.articlesDir)) {
+      try {
+        collections.push(await readCollection(file));
+      } catch (error) {
+        result.errors.push(toErrorEntry(error, { file }));
+      }
+    }
+
+    const byId = new Map<string, LocalCollection[]>();
+    const byFolder = new Map<string, LocalCollection[]>();
+
+    for (const collection of collections) {
+      const id = collection.metadata.intercom_id;
+      if (id) {
+        byId.set(id, [...(byId.get(id) || []), collection]);
+        byFolder.set(this.getFolder(collection.filePath), byId.get(id)!);
+      }
+    }
+
+    for (const collection of collections) {
+      if (collection.metadata.intercom_id) {
+        continue;
+      }
+      const folder = this.getFolder(collection.filePath);
+      const group = byFolder.get(folder);
+      if (group) {
+        group.push(collection);
+      } else {
+        byFolder.set(folder, [collection]);
+      }
+    }
+
+    const groups = new Map<LocalCollection[], string>();
+    for (const [folder, group] of byFolder) {
+      if (!groups.has(group)) {
+        groups.set(group, folder);
+      }
+    }
+
+    return Array.from(groups, ([group, folder]) => ({ folder, collections: group }))
+      .sort((a, b) => a.folder.split('/').length - b.folder.split('/').length);
+  }
+
+  /**
+   * Get the collection folder of a file, relative to its locale directory
+   * e.g. help-docs/en/getting-started/setup/_collection.yml -> "getting-started/setup"
+   */
+  private getFolder(filePath: string): string {
+    return path.relative(this.config.articlesDir, path.dirname(filePath))
+      .split(path.sep)
+      .slice(1)
+      .join('/');
+  }
+
+  /**
+   * Get the intercom_id of the collection of a folder's parent folder
+   * null for top-level folders, undefined when the parent folder has no known collection
+   */
+  private async getParentCollectionId(
+    folder: string,
+    localFolders: Map<string, { collections: LocalCollection[] }>
+  ): Promise<string | null | undefined> {
+    const parentFolder = path.posix.dirname(folder);
+    if (parentFolder === '.') {
+      return null;
+    }
+
+    const parent = localFolders.get(parentFolder);
+    if (parent) {
+      return parent.collections[0].metadata.intercom_id;
+    }
+    return this.findCollectionIdByFolder(parentFolder);
+  }
+
+  /**
+   * Find a remote collection of this help center by its folder path, as pull would name it
+   */
+  private async findCollectionIdByFolder(folder: string): Promise<string | undefined> {
+    const collections = await this.getRemoteCollections();
+    const paths = buildCollectionPaths(collections);
+    const match = collections.find(collection =>
+      paths.get(collection.id) === folder && isCollectionInHelpCenter(collection, this.config)
+    );
+    return match?.id;
+  }
+
+  /**
+   * Fetch remote collections once per push
+   */
+  private getRemoteCollections(): Promise<IntercomCollection[]> {
+    if (!this.remoteCollections) {
+      this.remoteCollections = this.client.getAllCollections();
+    }
+    return this.remoteCollections;
+  }
+
+  /**
+   * Build the Intercom collection payload from local metadata files
+   */
+  private buildCollectionData(group: LocalCollection[], defaultCollection: LocalCollection): CollectionData {
+    const translatedContent: IntercomCollection['translated_content'] = {};
+    for (const { metadata } of group) {
+      if (metadata !== defaultCollection.metadata) {
+        translatedContent[metadata.locale] = {
+          type: 'collection_content',
+          name: metadata.name,
+          description: metadata.description || '',
+        };
+      }
+    }
+
+    return {
+      name: defaultCollection.metadata.name,
+      description: defaultCollection.metadata.description || '',
+      translated_content: Object.keys(translatedContent).length > 0 ? translatedContent : undefined,
+    };
+  }
+
+  private isCollectionUnchanged(data: CollectionData, remote: IntercomCollection): boolean {
+    if (data.name !== remote.name || (data.description || '') !== (remote.description || '')) {
+      return false;
+    }
+    if (data.parent_id !== undefined && data.parent_id !== (remote.parent_id ?? null)) {
+      return false;
+    }
+
+    return Object.entries(data.translated_content || {}).every(([locale, translation]) => {
+      const remoteTranslation = remote.translated_content?.[locale];
+      return !!remoteTranslation &&
+        translation.name === remoteTranslation.name &&
+        (translation.description || '') === (remoteTranslation.description || '');
+    });
+  }
+
+  /**
+   * Get one file per article (the default locale file, which links its translations)
+   */
+  async getArticleFiles(): Promise<string[]> {
+    const groups = await this.loadArticleGroups();
+    return groups.map(group => this.findDefaultArticle(group).filePath);
+  }
+
+  /**
+   * Read all local files and group them by article (default locale + translations)
+   * Files with an intercom_id are grouped by ID; new files are grouped through their translations map
+   * Files that fail to parse are reported in result.errors when given
+   */
+  private async loadArticleGroups(result?: SyncResult): Promise<LocalArticle[][]> {
+    const files = await getAllMarkdownFiles(this.config.articlesDir);
+    const groups = new Map<string, LocalArticle[]>();
+    const newArticles = new Map<string, LocalArticle>();
+
+    for (const file of files) {
+      try {
+        const article = await readArticle(file);
+        const id = article.frontMatter.intercom_id;
+
+        if (!id) {
+          newArticles.set(file, article);
+        } else if (groups.has(id)) {
+          groups.get(id)!.push(article);
+        } else {
+          groups.set(id, [article]);
+        }
+      } catch (error) {
+        result?.errors.push(toErrorEntry(error, { file }));
+      }
+    }
+
+    const articleGroups = Array.from(groups.values());
+    const attached = new Set<string>();
+
+    // New translation files (no intercom_id yet) join the article whose translations map links them
+    const attachTranslations = (group: LocalArticle[]) => {
+      for (const article of [...group]) {
+        for (const translationPath of Object.values(article.frontMatter.translations || {})) {
+          const fullPath = path.join(this.config.articlesDir, translationPath);
+          const translation = newArticles.get(fullPath);
+          if (translation && translation !== article && !attached.has(fullPath)) {
+            group.push(translation);
+            attached.add(fullPath);
+          }
+        }
+      }
+    };
+
+    articleGroups.forEach(attachTranslations);
+
+    // Remaining new files are new articles, unless another new file links them as a translation
+    const linkedByNew = new Set<string>();
+    for (const article of newArticles.values()) {
+      for (const translationPath of Object.values(article.frontMatter.translations || {})) {
+        linkedByNew.add(path.join(this.config.articlesDir, translationPath));
+      }
+    }
+
+    for (const [file, article] of newArticles) {
+      if (!attached.has(file) && !linkedByNew.has(file)) {
+        const group = [article];
+        attachTranslations(group);
+        articleGroups.push(group);
+      }
+    }
+
+    return articleGroups;
+  }
+
   /**
    * Sync a single local file to Intercom
    */
@@ -114,7 +476,10 @@ export class SyncToIntercom {
       created: 0,
       updated: 0,
       skipped: 0,
+      orphaned: 0,
+      deleted: 0,
       errors: [],
+      conflicts: [],
     };
 
     try {
@@ -127,12 +492,193 @@ export class SyncToIntercom {
       );
     } catch (error) {
       result.success = false;
-      result.errors.push({
-        file: filePath,
-        error: error instanceof Error ? error.message : String(error),
-      });
+      result.errors.push(toErrorEntry(error, { file: filePath }));
+    }
+
+    return result;
+  }
+
+  /**
+   * Find Intercom articles whose local files were all deleted since the last sync
+   * Articles recorded in the manifest are matched by ID. Deleted files not recorded there
+   * are detected from base snapshots without a markdown file, and matched by content to
+   * the articles of this help center; only a single match on non-empty content counts.
+   * Snapshots that match no remote content (edited in Intercom since) or several are returned
+   * as unmatched and never deleted. Deleted files of articles that still have other local files
+   * are returned as translations (translations are never deleted from Intercom).
+   */
+  async findDeletedArticles(): Promise<{ candidates: DeletionCandidate[]; unmatched: string[]; translations: string[] }> {
+    const manifest = await loadManifest(this.config.articlesDir);
+    const deletedFiles = await getDeletedSnapshotFiles(this.config.articlesDir);
+
+    // Any unreadable file could refer to an article, so fail instead of guessing
+    const localIds = new Set<string>();
+    for (const file of await getAllMarkdownFiles(this.config.articlesDir)) {
+      const article = await readArticle(file);
+      if (article.frontMatter.intercom_id) {
+        localIds.add(article.frontMatter.intercom_id);
+      }
+    }
+
+    const translations = new Set<string>();
+    for (const id of localIds) {
+      for (const entry of Object.values(manifest.articles[id] || {})) {
+        const file = path.join(this.config.articlesDir, entry.path);
+        if (!(await exists(file))) {
+          translations.add(file);
+        }
+      }
+    }
+
+    const deletedIds = Object.keys(manifest.articles).filter(id => !localIds.has(id));
+    if (deletedIds.length === 0 && deletedFiles.every(file => translations.has(file))) {
+      return { candidates: [], unmatched: [], translations: Array.from(translations) };
+    }
+
+    const collections = this.config.helpCenterId ? await this.getRemoteCollections() : [];
+    const collectionsById = new Map(collections.map(collection => [collection.id, collection]));
+    const helpCenterArticles = (await this.client.getAllArticles())
+      .filter(article => isInHelpCenter(article, collectionsById, this.config));
+
+    const candidates = new Map<string, DeletionCandidate>();
+    const unmatched: string[] = [];
+
+    // Files recorded in the manifest are matched by ID only (articles already deleted in Intercom have nothing to delete)
+    const recordedFiles = new Map<string, string[]>(); // intercom_id -> files
+    for (const id of deletedIds) {
+      recordedFiles.set(id, Object.values(manifest.articles[id]).map(entry => path.join(this.config.articlesDir, entry.path)));
+    }
+    for (const remote of helpCenterArticles) {
+      const files = recordedFiles.get(remote.id);
+      if (files) {
+        candidates.set(remote.id, {
+          intercomId: remote.id,
+          title: remote.title || `article-${remote.id}`,
+          locales: Object.keys(manifest.articles[remote.id]),
+          files,
+        });
+      }
+    }
+    const recorded = new Set(Array.from(recordedFiles.values()).flat());
+
+    // Markdown of every remote article locale, to match snapshots against
+    const contents: Array<{ remote: IntercomArticle; locale: string; markdown: string }> = [];
+    for (const remote of helpCenterArticles) {
+      contents.push({ remote, locale: remote.default_locale, markdown: htmlToMarkdown(remote.body || '') });
+      for (const [locale, translation] of Object.entries(remote.translated_content || {})) {
+        if (locale !== remote.default_locale) {
+          contents.push({ remote, locale, markdown: htmlToMarkdown(translation.body || '') });
+        }
+      }
+    }
+
+    for (const file of deletedFiles) {
+      if (recorded.has(file) || translations.has(file)) {
+        continue;
+      }
+
+      const base = htmlToMarkdown((await readSnapshot(this.config.articlesDir, file)) || '').trim();
+      const matches = base ? contents.filter(content => content.markdown.trim() === base) : [];
+      if (matches.length !== 1) {
+        unmatched.push(file);
+        continue;
+      }
+
+      const { remote, locale } = matches[0];
+      if (localIds.has(remote.id)) {
+        translations.add(file);
+        continue;
+      }
+
+      const candidate = candidates.get(remote.id) || {
+        intercomId: remote.id,
+        title: remote.title || `article-${remote.id}`,
+        locales: [],
+        files: [],
+      };
+      // Another deleted file already matched this locale
+      if (candidate.locales.includes(locale)) {
+        unmatched.push(file);
+        continue;
+      }
+      candidate.locales.push(locale);
+      candidate.files.push(file);
+      candidates.set(remote.id, candidate);
+    }
+
+    return { candidates: Array.from(candidates.values()), unmatched, translations: Array.from(translations) };
+  }
+
+  /**
+   * Find the article group (all local locale files) of a local file for deletion
+   */
+  async findArticleGroup(filePath: string): Promise<DeletionCandidate> {
+    const article = await readArticle(filePath);
+    const intercomId = article.frontMatter.intercom_id;
+    if (!intercomId) {
+      throw new LocalParseError(`${filePath} has no intercom_id (not in Intercom yet)`, { file: filePath });
+    }
+
+    const articles: LocalArticle[] = [];
+    for (const file of await getAllMarkdownFiles(this.config.articlesDir)) {
+      try {
+        const candidate = await readArticle(file);
+        if (candidate.frontMatter.intercom_id === intercomId) {
+          articles.push(candidate);
+        }
+      } catch {
+        // Skip files that can't be parsed
+      }
+    }
+    if (articles.length === 0) {
+      articles.push(article);
     }
 
+    const defaultArticle = this.findDefaultArticle(articles);
+    return {
+      intercomId,
+      title: defaultArticle.frontMatter.title || this.extractTitle(defaultArticle.content),
+      locales: articles.map(a => a.frontMatter.locale),
+      files: articles.map(a => a.filePath),
+    };
+  }
+
+  /**
+   * Delete articles (with all translations) from Intercom, then their local files and snapshots
+   */
+  async deleteArticles(candidates: DeletionCandidate[]): Promise<SyncResult> {
+    const result: SyncResult = {
+      success: true,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      orphaned: 0,
+      deleted: 0,
+      errors: [],
+      conflicts: [],
+    };
+
+    const manifest = await loadManifest(this.config.articlesDir);
+
+    for (const candidate of candidates) {
+      try {
+        await this.client.deleteArticle(candidate.intercomId);
+
+        for (const file of candidate.files) {
+          if (await exists(file)) {
+            await deleteArticle(file);
+          }
+          await deleteSnapshot(this.config.articlesDir, file);
+        }
+
+        removeManifestEntry(manifest, candidate.intercomId);
+        result.deleted++;
+      } catch (error) {
+        result.errors.push(toErrorEntry(error, { articleId: candidate.intercomId }));
+      }
+    }
+
+    await saveManifest(this.config.articlesDir, manifest);
     return result;
   }
 
@@ -144,12 +690,14 @@ export class SyncToIntercom {
     const intercomId = defaultArticle.frontMatter.intercom_id;
 
     // Fetch current article from Intercom
+    let currentArticle: IntercomArticle | undefined;
     let currentHtml: string | undefined;
     let currentTranslations: Record<string, string> = {};
+    const remoteChanged: string[] = [];
 
     if (intercomId) {
       try {
-        const currentArticle = await this.client.getArticle(intercomId);
+        currentArticle = await this.client.getArticle(intercomId);
         currentHtml = currentArticle.body;
 
         if (currentArticle.translated_content) {
@@ -157,35 +705,60 @@ export class SyncToIntercom {
             currentTranslations[locale] = translation.body;
           }
         }
-      } catch {
+      } catch (error) {
         // Article might not exist
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+    }
+
+    const movedToCollection = intercomId ? await this.getCollectionMove(defaultArticle) : undefined;
+    const manifest = await this.getAssetManifest();
+
+    for (const article of articles) {
+      const locale = article.frontMatter.locale;
+      const remoteHtml = article === defaultArticle ? currentHtml : currentTranslations[locale];
+      if (!currentArticle || remoteHtml === undefined) {
+        continue;
+      }
+      const baseHtml = await this.getBaseHtml(article);
+      const bodyChanged = baseHtml === null
+        ? this.isChangedSinceManifest(manifest, currentArticle, article, defaultArticle)
+        : htmlToMarkdown(remoteHtml) !== htmlToMarkdown(baseHtml) ||
+          !isSameAttachments(extractAttachments(remoteHtml), extractAttachments(baseHtml));
+      if (bodyChanged || this.getRemoteMetadataChanges(article, defaultArticle, currentArticle, manifest, movedToCollection).length > 0) {
+        remoteChanged.push(locale);
       }
     }
 
     // Convert markdown to HTML
-    const newHtml = markdownToHtml(defaultArticle.content, currentHtml);
+    const articleData = await this.buildArticleData(articles, defaultArticle, currentHtml, currentTranslations, false);
+
+    if (movedToCollection) {
+      articleData.parent_id = movedToCollection;
+    }
 
     // Process translations (articles other than default)
     const translations: DryRunResult['translations'] = [];
-    const defaultLocale = defaultArticle.frontMatter.locale;
-    for (const article of articles) {
-      if (article.frontMatter.locale !== defaultLocale) {
-        const locale = article.frontMatter.locale;
-        translations.push({
-          locale,
-          currentHtml: currentTranslations[locale],
-          newHtml: markdownToHtml(article.content, currentTranslations[locale]),
-        });
-      }
+    for (const [locale, translation] of Object.entries(articleData.translated_content || {})) {
+      translations.push({
+        locale,
+        currentHtml: currentTranslations[locale],
+        newHtml: translation.body,
+      });
     }
 
     return {
-      title: defaultArticle.frontMatter.title || this.extractTitle(defaultArticle.content),
+      title: articleData.title,
       intercomId,
       isNew: !intercomId,
+      unchanged: !!currentArticle && this.isUnchanged(articleData, currentArticle),
       currentHtml,
-      newHtml,
+      newHtml: articleData.body,
       translations,
+      remoteChanged,
+      movedToCollection,
     };
   }
 
@@ -230,31 +803,252 @@ export class SyncToIntercom {
       throw new Error('No articles to sync');
     }
 
+    // Articles deleted in Intercom are flagged by pull and must not be re-created
+    if (articles.some(a => a.frontMatter.orphaned)) {
+      result.skipped++;
+      return;
+    }
+
+    // Never push unresolved conflict markers left by pull
+    const unresolved = articles.find(a => hasConflictMarkers(a.content));
+    if (unresolved) {
+      throw new ConflictError(
+        `Unresolved conflict markers in ${unresolved.filePath}`,
+        [unresolved.frontMatter.locale],
+        { file: unresolved.filePath, locale: unresolved.frontMatter.locale, articleId: intercomId }
+      );
+    }
+
     // Find the default locale article
     const defaultArticle = this.findDefaultArticle(articles);
 
+    // Follow files moved to another collection folder (files are moved once Intercom is updated)
+    const move = intercomId ? await this.planCollectionMove(articles, defaultArticle) : undefined;
+
+    // Files unchanged since the last sync have nothing to push (not even fetched)
+    if (intercomId && !move && !this.options.force && await this.isUnchangedSinceSync(intercomId, articles, defaultArticle)) {
+      result.skipped++;
+      return;
+    }
+
     // Fetch current article from Intercom to get image signatures
+    let remoteArticle: IntercomArticle | undefined;
     let originalHtml: string | undefined;
     let originalTranslations: Record<string, string> = {};
 
     if (intercomId) {
       try {
-        const currentArticle = await this.client.getArticle(intercomId);
-        originalHtml = currentArticle.body;
+        remoteArticle = await this.client.getArticle(intercomId);
+        originalHtml = remoteArticle.body;
 
         // Get original HTML for each translation
-        if (currentArticle.translated_content) {
-          for (const [locale, translation] of Object.entries(currentArticle.translated_content)) {
+        if (remoteArticle.translated_content) {
+          for (const [locale, translation] of Object.entries(remoteArticle.translated_content)) {
             originalTranslations[locale] = translation.body;
           }
         }
-      } catch {
+      } catch (error) {
         // Article might not exist yet, proceed without original HTML
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+
+      // Refuse to overwrite edits made in Intercom since the last pull
+      if (remoteArticle && !this.options.force) {
+        await this.resolveRemoteChanges(articles, defaultArticle, remoteArticle, move?.collectionId);
+      }
+    }
+
+    const articleData = await this.buildArticleData(articles, defaultArticle, originalHtml, originalTranslations, true);
+    if (move) {
+      articleData.parent_id = move.collectionId;
+    }
+
+    // Articles in several help centers keep their other parents: leave parent_id alone unless moved
+    if (remoteArticle && (remoteArticle.parent_ids?.length || 0) > 1 && articleData.parent_id === remoteArticle.parent_id) {
+      delete articleData.parent_id;
+    }
+
+    if (intercomId) {
+      // Skip articles whose content is identical to Intercom (avoids needless revisions)
+      if (remoteArticle && this.isUnchanged(articleData, remoteArticle)) {
+        if (move) {
+          await this.applyCollectionMove(move, defaultArticle);
+        }
+        await this.recordSyncState(articles, defaultArticle, remoteArticle);
+        result.skipped++;
+        return;
+      }
+
+      // Update existing article
+      await this.checkHelpCenter(articleData.parent_id, defaultArticle);
+      const updated = await this.client.updateArticle(intercomId, articleData);
+      if (move) {
+        await this.applyCollectionMove(move, defaultArticle);
+      }
+      await this.recordSyncState(articles, defaultArticle, updated);
+      result.updated++;
+    } else {
+      // New articles without intercom_collection_id go to the collection of their folder
+      if (!articleData.parent_id) {
+        articleData.parent_id = await this.getFolderCollectionId(defaultArticle.filePath);
+      }
+
+      // Create new article
+      await this.checkHelpCenter(articleData.parent_id, defaultArticle);
+      const created = await this.client.createArticle(articleData);
+
+      // Update all local files with the new intercom_id
+      for (const article of articles) {
+        article.frontMatter.intercom_id = created.id;
+        if (articleData.parent_id && !article.frontMatter.intercom_collection_id) {
+          article.frontMatter.intercom_collection_id = articleData.parent_id;
+        }
+        await writeArticle(
+          article.filePath,
+          article.frontMatter,
+          article.content
+        );
+      }
+      await this.recordSyncState(articles, defaultArticle, created);
+
+      result.created++;
+    }
+  }
+
+  /**
+   * Refuse to put an article into a collection of another help center than the one being pushed
+   */
+  private async checkHelpCenter(collectionId: string | undefined, article: LocalArticle): Promise<void> {
+    if (!collectionId || !this.config.helpCenterId) {
+      return;
+    }
+
+    const collection = (await this.getRemoteCollections()).find(c => c.id === collectionId);
+    if (collection && !isCollectionInHelpCenter(collection, this.config)) {
+      throw new ConfigError(
+        `Collection ${collectionId} of ${article.filePath} belongs to help center ${collection.help_center_id}, ` +
+        `not ${this.config.helpCenterId}: move the file to that help center's directory`,
+        { file: article.filePath, articleId: article.frontMatter.intercom_id }
+      );
+    }
+  }
+
+  /**
+   * Get the collection an article was moved to: the collection of its folder,
+   * when that differs from its intercom_collection_id
+   */
+  private async getCollectionMove(defaultArticle: LocalArticle): Promise<string | undefined> {
+    const folderCollectionId = await this.getFolderCollectionId(defaultArticle.filePath);
+    return folderCollectionId && folderCollectionId !== defaultArticle.frontMatter.intercom_collection_id
+      ? folderCollectionId
+      : undefined;
+  }
+
+  /**
+   * When the default locale file was moved to another collection folder, plan moving the translation
+   * files to the matching folder of their locale (nothing is moved when a target already exists)
+   */
+  private async planCollectionMove(
+    articles: LocalArticle[],
+    defaultArticle: LocalArticle
+  ): Promise<CollectionMove | undefined> {
+    const collectionId = await this.getCollectionMove(defaultArticle);
+    if (!collectionId) {
+      return undefined;
+    }
+
+    const folder = this.getFolder(defaultArticle.filePath);
+    const moves: CollectionMove['moves'] = [];
+    for (const article of articles) {
+      const to = article === defaultArticle
+        ? article.filePath
+        : path.join(this.config.articlesDir, article.frontMatter.locale, folder, path.basename(article.filePath));
+      if (to !== article.filePath && await exists(to)) {
+        throw new LocalParseError(`Cannot move ${article.filePath}: ${to} already exists`, {
+          file: article.filePath,
+          locale: article.frontMatter.locale,
+        });
+      }
+      moves.push({ article, from: article.filePath, to });
+    }
+
+    return { collectionId, moves };
+  }
+
+  /**
+   * Point all files of a moved article to the new collection, and move translation files (and all
+   * base snapshots) to the matching folder of their locale, once parent_id was updated in Intercom
+   */
+  private async applyCollectionMove({ collectionId, moves }: CollectionMove, defaultArticle: LocalArticle): Promise<void> {
+    const manifest = await loadManifest(this.config.articlesDir);
+    const intercomId = defaultArticle.frontMatter.intercom_id!;
+
+    for (const { article, from, to } of moves) {
+      const locale = article.frontMatter.locale;
+      const snapshotPath = getManifestPath(manifest, this.config.articlesDir, intercomId, locale) || from;
+
+      article.filePath = to;
+      article.frontMatter.intercom_collection_id = collectionId;
+      if (article !== defaultArticle && from !== to) {
+        defaultArticle.frontMatter.translations = {
+          ...defaultArticle.frontMatter.translations,
+          [locale]: path.relative(this.config.articlesDir, to).split(path.sep).join('/'),
+        };
       }
+
+      await moveSnapshot(this.config.articlesDir, snapshotPath, to);
+    }
+
+    // Write every file (new front matter), then remove the old translation files
+    for (const { article, from, to } of moves) {
+      article.content = relinkAssets(article.content, to, this.config.articlesDir);
+      await writeArticle(to, article.frontMatter, article.content);
+      if (from !== to) {
+        await deleteArticle(from);
+      }
+    }
+  }
+
+  /**
+   * Get the collection of an article's folder: the intercom_id of the _collection.yml next to it,
+   * or the remote collection whose (nested) folder path matches
+   */
+  private async getFolderCollectionId(articleFile: string): Promise<string | undefined> {
+    const collectionFile = getCollectionFileForArticle(articleFile);
+    if (await exists(collectionFile)) {
+      const { metadata } = await readCollection(collectionFile);
+      return metadata.orphaned ? undefined : metadata.intercom_id;
+    }
+    return this.findCollectionIdByFolder(this.getFolder(articleFile));
+  }
+
+  /**
+   * Build the Intercom article payload from local files
+   * @param upload - Upload new local images (otherwise only images uploaded before get their URL)
+   */
+  private async buildArticleData(
+    articles: LocalArticle[],
+    defaultArticle: LocalArticle,
+    originalHtml: string | undefined,
+    originalTranslations: Record<string, string>,
+    upload: boolean
+  ): Promise<ArticleData> {
+    const manifest = await this.getAssetManifest();
+    const uploadCount = Object.keys(manifest.uploads || {}).length;
+    const markdowns = new Map<LocalArticle, string>();
+    for (const article of articles) {
+      markdowns.set(article, await this.resolveImages(article, manifest, upload));
+    }
+    if (Object.keys(manifest.uploads || {}).length !== uploadCount) {
+      await this.recordUploads(manifest);
     }
 
     // Convert markdown to HTML for default locale
-    const defaultBody = markdownToHtml(defaultArticle.content, originalHtml);
+    const defaultBody = this.convertToHtml(defaultArticle, markdowns.get(defaultArticle)!, originalHtml);
+    // Pull writes "uncategorized" for articles outside any collection
+    const collectionId = defaultArticle.frontMatter.intercom_collection_id;
 
     // Prepare translated content (articles other than default)
     const translatedContent: IntercomArticle['translated_content'] = {};
@@ -265,11 +1059,13 @@ export class SyncToIntercom {
         const locale = article.frontMatter.locale;
         const originalTranslationHtml = originalTranslations[locale];
 
+        // Each translation has its own status and author (falling back to the default locale's author)
         translatedContent[locale] = {
           type: 'article_content',
           title: article.frontMatter.title || this.extractTitle(article.content),
-          body: markdownToHtml(article.content, originalTranslationHtml),
-          author_id: article.frontMatter.author_id || 0,
+          body: this.convertToHtml(article, markdowns.get(article)!, originalTranslationHtml),
+          description: article.frontMatter.description,
+          author_id: article.frontMatter.author_id || defaultArticle.frontMatter.author_id || 0,
           state: article.frontMatter.status || 'draft',
           created_at: 0,
           updated_at: 0,
@@ -277,39 +1073,350 @@ export class SyncToIntercom {
       }
     }
 
-    const articleData = {
+    return {
       title: defaultArticle.frontMatter.title || this.extractTitle(defaultArticle.content),
       body: defaultBody,
+      description: defaultArticle.frontMatter.description,
       author_id: defaultArticle.frontMatter.author_id || 0,
-      state: defaultArticle.frontMatter.status || 'draft' as const,
-      parent_id: defaultArticle.frontMatter.intercom_collection_id,
-      parent_type: 'collection' as const,
+      state: defaultArticle.frontMatter.status || 'draft',
+      parent_id: collectionId === 'uncategorized' ? undefined : collectionId,
+      parent_type: 'collection',
       translated_content: Object.keys(translatedContent).length > 0 ? translatedContent : undefined,
     };
+  }
 
-    if (intercomId) {
-      // Update existing article
-      await this.client.updateArticle(intercomId, articleData);
-      result.updated++;
-    } else {
-      // Create new article
-      const created = await this.client.createArticle(articleData);
+  /**
+   * Get the markdown of an article with image links Intercom can resolve: downloaded images
+   * become their Intercom URLs, local images the URLs they were uploaded to
+   */
+  private async resolveImages(article: LocalArticle, manifest: SyncManifest, upload: boolean): Promise<string> {
+    const markdown = resolveAssetLinks(article.content, manifest);
+    return upload
+      ? uploadLocalImages(markdown, article.filePath, manifest, this.getUploader())
+      : resolveUploadedImages(markdown, article.filePath, manifest);
+  }
 
-      // Update all local files with the new intercom_id
-      for (const article of articles) {
-        article.frontMatter.intercom_id = created.id;
-        const { writeArticle } = await import('../utils/file-manager');
-        await writeArticle(
-          article.filePath,
-          article.frontMatter,
-          article.content
-        );
+  /**
+   * Get the uploader for local images (undefined when none is configured)
+   */
+  private getUploader(): ImageUploader | undefined {
+    if (!this.uploader) {
+      this.uploader = this.options.uploader ||
+        (this.config.imageUploader ? createImageUploader(this.config.imageUploader) : undefined);
+    }
+    return this.uploader;
+  }
+
+  /**
+   * Convert the markdown of a local article to Intercom HTML, reporting failures with file and locale
+   */
+  private convertToHtml(article: LocalArticle, markdown: string, originalHtml?: string): string {
+    try {
+      return markdownToHtml(markdown, originalHtml, article.frontMatter.attachments);
+    } catch (error) {
+      throw new ConversionError(`Failed to convert ${article.filePath} to HTML: ${errorMessage(error)}`, {
+        file: article.filePath,
+        locale: article.frontMatter.locale,
+        articleId: article.frontMatter.intercom_id,
+      });
+    }
+  }
+
+  /**
+   * Check whether pushing would change nothing in Intercom
+   * Bodies are compared by hash of normalized HTML
+   */
+  private isUnchanged(data: ArticleData, remote: IntercomArticle): boolean {
+    if (
+      data.title !== remote.title ||
+      data.state !== remote.state ||
+      !isSameDescription(data.description, remote.description) ||
+      !isSameAuthor(data.author_id, remote.author_id) ||
+      (data.parent_id !== undefined && data.parent_id !== remote.parent_id) ||
+      contentHash(data.body) !== contentHash(remote.body)
+    ) {
+      return false;
+    }
+
+    return Object.entries(data.translated_content || {}).every(([locale, translation]) => {
+      const remoteTranslation = remote.translated_content?.[locale];
+      return !!remoteTranslation &&
+        translation.title === remoteTranslation.title &&
+        translation.state === remoteTranslation.state &&
+        isSameDescription(translation.description, remoteTranslation.description) &&
+        isSameAuthor(translation.author_id, remoteTranslation.author_id) &&
+        contentHash(translation.body) === contentHash(remoteTranslation.body);
+    });
+  }
+
+  /**
+   * Get the manifest recording downloaded and uploaded images, and the articles as of the last sync
+   * (loaded once: pull is the only writer of assets, and uploads are added to it as they happen)
+   */
+  private getAssetManifest(): Promise<SyncManifest> {
+    if (!this.assetManifest) {
+      this.assetManifest = loadManifest(this.config.articlesDir);
+    }
+    return this.assetManifest;
+  }
+
+  /**
+   * Get the HTML of an article as of the last sync (its base snapshot)
+   * Returns null if no snapshot exists
+   */
+  private async getBaseHtml(article: LocalArticle): Promise<string | null> {
+    let baseHtml = await readSnapshot(this.config.articlesDir, article.filePath);
+
+    // Files moved to another folder keep their snapshot at the recorded path until pushed
+    const intercomId = article.frontMatter.intercom_id;
+    if (baseHtml === null && intercomId) {
+      const manifest = await this.getAssetManifest();
+      const recordedPath = getManifestPath(manifest, this.config.articlesDir, intercomId, article.frontMatter.locale);
+      if (recordedPath && recordedPath !== article.filePath) {
+        baseHtml = await readSnapshot(this.config.articlesDir, recordedPath);
       }
+    }
 
-      result.created++;
+    return baseHtml;
+  }
+
+  /**
+   * Check whether the remote content of an article locale changed since the last sync, from the manifest
+   * (for files without a base snapshot, e.g. in a fresh clone where .original/ isn't committed)
+   * Compares the recorded remote_hash, then updated_at; locales never synced count as unchanged
+   */
+  private isChangedSinceManifest(
+    manifest: SyncManifest,
+    remoteArticle: IntercomArticle,
+    article: LocalArticle,
+    defaultArticle: LocalArticle
+  ): boolean {
+    const locale = article.frontMatter.locale;
+    const entry = manifest.articles[remoteArticle.id]?.[locale];
+    const translation = remoteArticle.translated_content?.[locale];
+    const html = article === defaultArticle ? remoteArticle.body : translation?.body;
+
+    if (html === undefined || !entry) {
+      return false;
+    }
+    const updatedAt = (article !== defaultArticle && translation?.updated_at) || remoteArticle.updated_at;
+    return isRemoteChangedSince(entry, html, updatedAt);
+  }
+
+  /**
+   * Get the metadata fields (title, state, description, author and collection) changed in Intercom since the
+   * last sync that the local file doesn't match; locales synced before metadata was recorded compare nothing
+   */
+  private getRemoteMetadataChanges(
+    article: LocalArticle,
+    defaultArticle: LocalArticle,
+    remoteArticle: IntercomArticle,
+    manifest: SyncManifest,
+    movedToCollection: string | undefined
+  ): Array<keyof ArticleMetadata> {
+    const locale = article.frontMatter.locale;
+    const base = manifest.articles[remoteArticle.id]?.[locale]?.metadata;
+    const remote = getLocaleMetadata(remoteArticle, locale);
+    if (!base || !remote) {
+      return [];
+    }
+
+    const local = this.getLocalMetadata(article, defaultArticle, base, movedToCollection);
+    return getMetadataChanges(base, remote).filter(key => local[key] !== remote[key]);
+  }
+
+  /**
+   * Get the metadata a push would send for a local file (a description or author left out of
+   * front matter is the base one)
+   */
+  private getLocalMetadata(
+    article: LocalArticle,
+    defaultArticle: LocalArticle,
+    base: ArticleMetadata,
+    movedToCollection?: string
+  ): ArticleMetadata {
+    const collectionId = movedToCollection || defaultArticle.frontMatter.intercom_collection_id;
+    return {
+      title: article.frontMatter.title || this.extractTitle(article.content),
+      state: article.frontMatter.status || 'draft',
+      description: article.frontMatter.description ?? base.description,
+      author_id: article.frontMatter.author_id || base.author_id,
+      parent_id: collectionId && collectionId !== 'uncategorized' ? collectionId : null,
+    };
+  }
+
+  /**
+   * Check whether every file of an article is as recorded at the last sync: body and attachments by
+   * local_hash, front matter by metadata (pushing would send nothing new)
+   */
+  private async isUnchangedSinceSync(
+    intercomId: string,
+    articles: LocalArticle[],
+    defaultArticle: LocalArticle
+  ): Promise<boolean> {
+    const manifest = await this.getAssetManifest();
+    return articles.every(article => {
+      const entry = manifest.articles[intercomId]?.[article.frontMatter.locale];
+      return !!entry?.local_hash && !!entry.metadata &&
+        path.join(this.config.articlesDir, entry.path) === article.filePath &&
+        markdownHash(article.content, article.frontMatter.attachments) === entry.local_hash &&
+        getMetadataChanges(entry.metadata, this.getLocalMetadata(article, defaultArticle, entry.metadata)).length === 0;
+    });
+  }
+
+  /**
+   * Compare base vs. local vs. remote for each locale (body and attachments)
+   * Clean three-way merges are written to the local files (when merge is enabled),
+   * otherwise an error is thrown if the remote changed since the last pull.
+   * Files without a base snapshot are checked against the manifest, and can't be merged.
+   * Metadata changed in Intercom that the local file doesn't match is never merged (pull first).
+   * @param movedToCollection - The collection the local files were moved to, if any
+   */
+  private async resolveRemoteChanges(
+    articles: LocalArticle[],
+    defaultArticle: LocalArticle,
+    remoteArticle: IntercomArticle,
+    movedToCollection?: string
+  ): Promise<void> {
+    const conflicts: string[] = [];
+    const metadataConflicts = new Map<string, Array<keyof ArticleMetadata>>(); // locale -> changed fields
+    const manifest = await this.getAssetManifest();
+
+    for (const article of articles) {
+      const locale = article.frontMatter.locale;
+      const remoteLocaleHtml = article === defaultArticle
+        ? remoteArticle.body
+        : remoteArticle.translated_content?.[locale]?.body;
+
+      // New translation: nothing to compare against
+      if (remoteLocaleHtml === undefined) {
+        continue;
+      }
+
+      const metadataChanges = this.getRemoteMetadataChanges(article, defaultArticle, remoteArticle, manifest, movedToCollection);
+      if (metadataChanges.length > 0) {
+        conflicts.push(locale);
+        metadataConflicts.set(locale, metadataChanges);
+        continue;
+      }
+
+      const remote = htmlToMarkdown(remoteLocaleHtml);
+      const remoteAttachments = extractAttachments(remoteLocaleHtml);
+      // Base and remote carry the URLs of images, so links to downloaded and uploaded images are compared as those
+      const local = resolveAssetLinks(article.content, manifest).trim();
+      const resolved = (await resolveUploadedImages(local, article.filePath, manifest)).trim();
+      if (remote === resolved && isSameAttachments(remoteAttachments, article.frontMatter.attachments)) {
+        continue;
+      }
+
+      const baseHtml = await this.getBaseHtml(article);
+      if (baseHtml === null) {
+        if (this.isChangedSinceManifest(manifest, remoteArticle, article, defaultArticle)) {
+          conflicts.push(locale);
+        }
+        continue;
+      }
+      const base = htmlToMarkdown(baseHtml);
+      const baseAttachments = extractAttachments(baseHtml);
+      if (remote === base && isSameAttachments(remoteAttachments, baseAttachments)) {
+        continue;
+      }
+
+      if (!this.options.merge) {
+        conflicts.push(locale);
+        continue;
+      }
+
+      const { merged, clean } = threeWayMerge(base, local, remote);
+      const attachments = mergeAttachments(baseAttachments, article.frontMatter.attachments, remoteAttachments);
+      if (!clean || !attachments.clean) {
+        conflicts.push(locale);
+        continue;
+      }
+
+      article.frontMatter = { ...article.frontMatter, attachments: attachments.attachments };
+      if (attachments.attachments.length === 0) {
+        delete article.frontMatter.attachments;
+      }
+
+      article.content = localizeImages(
+        merged,
+        defaultArticle.frontMatter.intercom_id!,
+        article.filePath,
+        this.config.articlesDir,
+        manifest
+      );
+      await writeArticle(article.filePath, article.frontMatter, article.content);
+    }
+
+    if (conflicts.length > 0) {
+      let hint = this.options.merge
+        ? 'local and remote edits overlap; pull and resolve manually, or use --force to overwrite'
+        : 'pull first, retry with --merge, or use --force to overwrite';
+      if (metadataConflicts.size > 0) {
+        hint = 'pull first, or use --force to overwrite';
+      }
+      const changes = conflicts.map(locale => {
+        const fields = metadataConflicts.get(locale);
+        return fields ? `${locale}: ${fields.map(field => METADATA_LABELS[field]).join(', ')}` : locale;
+      });
+      throw new ConflictError(
+        `Remote article changed since last pull (${changes.join(', ')}): ${hint}`,
+        conflicts,
+        { file: defaultArticle.filePath, articleId: defaultArticle.frontMatter.intercom_id }
+      );
     }
   }
 
+  /**
+   * Store the pushed HTML as the new base snapshot for each local file, and record it in the manifest
+   */
+  private async recordSyncState(
+    articles: LocalArticle[],
+    defaultArticle: LocalArticle,
+    remoteArticle: IntercomArticle
+  ): Promise<void> {
+    // Serialize manifest updates, since article groups are pushed concurrently
+    const update = this.manifestQueue.then(async () => {
+      const manifest = await loadManifest(this.config.articlesDir);
+
+      for (const article of articles) {
+        const translation = remoteArticle.translated_content?.[article.frontMatter.locale];
+        const html = article === defaultArticle ? remoteArticle.body : translation?.body;
+        // Translations have their own updated_at, which pull compares against
+        const updatedAt = (article !== defaultArticle && translation?.updated_at) || remoteArticle.updated_at;
+        if (html !== undefined) {
+          await writeSnapshot(this.config.articlesDir, article.filePath, html);
+          setManifestEntry(manifest, this.config.articlesDir, remoteArticle.id, article.frontMatter.locale, article.filePath, {
+            updated_at: timestampToISO(updatedAt),
+            remote_hash: contentHash(html),
+            local_hash: markdownHash(article.content, article.frontMatter.attachments),
+            metadata: getLocaleMetadata(remoteArticle, article.frontMatter.locale),
+          });
+        }
+      }
+
+      await saveManifest(this.config.articlesDir, manifest);
+    });
+
+    this.manifestQueue = update.catch(() => undefined);
+    await update;
+  }
+
+  /**
+   * Save uploaded images to the manifest right away, so they aren't uploaded again if the push fails
+   */
+  private async recordUploads(uploadManifest: SyncManifest): Promise<void> {
+    const update = this.manifestQueue.then(async () => {
+      const manifest = await loadManifest(this.config.articlesDir);
+      manifest.uploads = { ...manifest.uploads, ...uploadManifest.uploads };
+      await saveManifest(this.config.articlesDir, manifest);
+    });
+
+    this.manifestQueue = update.catch(() => undefined);
+    await update;
+  }
+
   /**
    * Extract title from markdown content
    */
@@ -318,3 +1425,26 @@ export class SyncToIntercom {
     return match ? match[1].trim() : 'Untitled';
   }
 }
+
+// Metadata fields as named in front matter
+const METADATA_LABELS: Record<keyof ArticleMetadata, string> = {
+  title: 'title',
+  state: 'status',
+  description: 'description',
+  author_id: 'author_id',
+  parent_id: 'collection',
+};
+
+/**
+ * Compare descriptions, treating a description missing from front matter as unchanged
+ */
+function isSameDescription(local: string | undefined, remote: string | undefined): boolean {
+  return local === undefined || local === (remote || '');
+}
+
+/**
+ * Compare authors, treating an author missing from front matter (or 0) as unchanged
+ */
+function isSameAuthor(local: number | undefined, remote: number | undefined): boolean {
+  return !local || local === remote;
+}
@@ -0,0 +1,504 @@
+/**
+ * In-process fake of the Intercom Articles API for end-to-end tests
+ * Implements /articles, /help_center/collections and /help_center/help_centers with in-memory state,
+ * injectable failures and rate limits. Point IntercomClient at it with apiBaseUrl.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { IntercomArticle, IntercomCollection, IntercomHelpCenter } from '../types';
+
+export interface FakeIntercomOptions {
+  /** Accepted bearer token (default: 'test-token') */
+  accessToken?: string;
+  /** Largest page size served, whatever per_page is requested (default: 150) */
+  maxPerPage?: number;
+  /** Workspace ID of created collections (default: 'test-workspace') */
+  workspaceId?: string;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body?: Record<string, unknown>;
+  /** Intercom-Version header */
+  version?: string;
+}
+
+interface InjectedFailure {
+  status: number;
+  method?: string;
+  path?: string | RegExp;
+  times: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+type ArticleInput = Partial<IntercomArticle> & { title: string };
+type CollectionInput = Partial<IntercomCollection> & { name: string };
+type HelpCenterInput = Partial<IntercomHelpCenter> & { identifier: string };
+
+export class FakeIntercomServer {
+  readonly articles = new Map<string, IntercomArticle>();
+  readonly collections = new Map<string, IntercomCollection>();
+  readonly helpCenters = new Map<string, IntercomHelpCenter>();
+  readonly requests: RecordedRequest[] = [];
+
+  private server: http.Server | null = null;
+  private failures: InjectedFailure[] = [];
+  private nextId = 1000;
+  private lastTimestamp = 0;
+  private accessToken: string;
+  private maxPerPage: number;
+  private workspaceId: string;
+
+  constructor(options: FakeIntercomOptions = {}) {
+    this.accessToken = options.accessToken ?? 'test-token';
+    this.maxPerPage = options.maxPerPage ?? 150;
+    this.workspaceId = options.workspaceId ?? 'test-workspace';
+  }
+
+  /**
+   * Start listening on a random local port, returning the base URL
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.send(res, 500, errorBody('server_error', String(error)));
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Fake Intercom server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Add an article directly to the in-memory state (as if edited in the Intercom UI)
+   */
+  addArticle(input: ArticleInput): IntercomArticle {
+    const now = this.timestamp();
+    const article: IntercomArticle = {
+      type: 'article',
+      body: '',
+      author_id: 1,
+      state: 'published',
+      default_locale: 'en',
+      ...input,
+      id: input.id || this.generateId(),
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.articles.set(article.id, article);
+    return article;
+  }
+
+  /**
+   * Change an article in the in-memory state, bumping its updated_at
+   */
+  updateArticle(id: string, changes: Partial<IntercomArticle>): IntercomArticle {
+    const article = this.articles.get(id);
+    if (!article) {
+      throw new Error(`Article ${id} not found`);
+    }
+    const updated = { ...article, ...changes, id, updated_at: this.timestamp() };
+    this.articles.set(id, updated);
+    return updated;
+  }
+
+  addCollection(input: CollectionInput): IntercomCollection {
+    const now = this.timestamp();
+    const collection: IntercomCollection = {
+      type: 'collection',
+      workspace_id: this.workspaceId,
+      default_locale: 'en',
+      ...input,
+      id: input.id || this.generateId(),
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.collections.set(collection.id, collection);
+    return collection;
+  }
+
+  addHelpCenter(input: HelpCenterInput): IntercomHelpCenter {
+    const now = this.timestamp();
+    const helpCenter: IntercomHelpCenter = {
+      workspace_id: this.workspaceId,
+      website_turned_on: true,
+      ...input,
+      id: input.id || this.generateId(),
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.helpCenters.set(helpCenter.id, helpCenter);
+    return helpCenter;
+  }
+
+  /**
+   * Fail matching requests with the given status (e.g. 500, 401, 422)
+   */
+  failNext(
+    status: number,
+    options: { method?: string; path?: string | RegExp; times?: number; body?: unknown } = {}
+  ): void {
+    this.failures.push({
+      status,
+      method: options.method?.toUpperCase(),
+      path: options.path,
+      times: options.times ?? 1,
+      body: options.body ?? errorBody(status === 401 ? 'unauthorized' : 'server_error', `Injected ${status}`),
+    });
+  }
+
+  /**
+   * Answer the next requests with 429, with X-RateLimit-Reset resetAfter seconds from now
+   */
+  rateLimit(times = 1, resetAfter = 0): void {
+    this.failures.push({
+      status: 429,
+      times,
+      body: errorBody('rate_limit_exceeded', 'Exceeded rate limit'),
+      headers: {
+        'X-RateLimit-Limit': '1000',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': String(Math.floor(Date.now() / 1000) + resetAfter),
+      },
+    });
+  }
+
+  /**
+   * Clear recorded requests and pending failures
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.failures = [];
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = (req.method || 'GET').toUpperCase();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const body = await readBody(req);
+    const version = req.headers['intercom-version'];
+    this.requests.push({ method, path: url.pathname, body, version: typeof version === 'string' ? version : undefined });
+
+    if (req.headers.authorization !== `Bearer ${this.accessToken}`) {
+      this.send(res, 401, errorBody('unauthorized', 'Access Token Invalid'));
+      return;
+    }
+
+    const failure = this.takeFailure(method, url.pathname);
+    if (failure) {
+      this.send(res, failure.status, failure.body, failure.headers);
+      return;
+    }
+
+    const segments = url.pathname.split('/').filter(Boolean);
+
+    if (segments[0] === 'articles') {
+      this.handleArticles(res, method, segments[1], url, body);
+    } else if (segments[0] === 'help_center' && segments[1] === 'collections') {
+      this.handleCollections(res, method, segments[2], url, body);
+    } else if (segments[0] === 'help_center' && segments[1] === 'help_centers') {
+      this.handleHelpCenters(res, method, segments[2], url);
+    } else {
+      this.send(res, 404, errorBody('not_found', `No route for ${method} ${url.pathname}`));
+    }
+  }
+
+  private handleArticles(
+    res: http.ServerResponse,
+    method: string,
+    id: string | undefined,
+    url: URL,
+    body?: Record<string, unknown>
+  ): void {
+    if (!id) {
+      if (method === 'GET') {
+        this.send(res, 200, this.paginate(Array.from(this.articles.values()), url, serializeArticle));
+      } else if (method === 'POST') {
+        this.createArticle(res, body || {});
+      } else {
+        this.send(res, 405, errorBody('method_not_allowed', `${method} /articles`));
+      }
+      return;
+    }
+
+    const article = this.articles.get(id);
+    if (!article) {
+      this.send(res, 404, errorBody('not_found', 'Resource Not Found'));
+      return;
+    }
+
+    switch (method) {
+      case 'GET':
+        this.send(res, 200, serializeArticle(article));
+        break;
+      case 'PUT':
+        this.send(res, 200, serializeArticle(this.updateArticle(id, articleChanges(article, body || {}, this.timestamp()))));
+        break;
+      case 'DELETE':
+        this.articles.delete(id);
+        this.send(res, 200, { id, object: 'article', deleted: true });
+        break;
+      default:
+        this.send(res, 405, errorBody('method_not_allowed', `${method} /articles/${id}`));
+    }
+  }
+
+  private createArticle(res: http.ServerResponse, body: Record<string, unknown>): void {
+    if (!body.title || !body.author_id) {
+      this.send(res, 422, errorBody('parameter_invalid', 'title and author_id are required'));
+      return;
+    }
+
+    const article = this.addArticle({
+      title: String(body.title),
+      ...articleChanges(undefined, body, this.timestamp()),
+    });
+    this.send(res, 200, serializeArticle(article));
+  }
+
+  private handleCollections(
+    res: http.ServerResponse,
+    method: string,
+    id: string | undefined,
+    url: URL,
+    body?: Record<string, unknown>
+  ): void {
+    if (!id) {
+      if (method === 'GET') {
+        this.send(res, 200, this.paginate(Array.from(this.collections.values()), url, serializeCollection));
+      } else if (method === 'POST') {
+        if (!body?.name) {
+          this.send(res, 422, errorBody('parameter_invalid', 'name is required'));
+          return;
+        }
+        const collection = this.addCollection({ name: String(body.name), ...collectionChanges(undefined, body) });
+        this.send(res, 200, serializeCollection(collection));
+      } else {
+        this.send(res, 405, errorBody('method_not_allowed', `${method} /help_center/collections`));
+      }
+      return;
+    }
+
+    const collection = this.collections.get(id);
+    if (!collection) {
+      this.send(res, 404, errorBody('not_found', 'Resource Not Found'));
+      return;
+    }
+
+    switch (method) {
+      case 'GET':
+        this.send(res, 200, serializeCollection(collection));
+        break;
+      case 'PUT': {
+        const updated = { ...collection, ...collectionChanges(collection, body || {}), updated_at: this.timestamp() };
+        this.collections.set(id, updated);
+        this.send(res, 200, serializeCollection(updated));
+        break;
+      }
+      case 'DELETE':
+        this.collections.delete(id);
+        this.send(res, 200, { id, object: 'collection', deleted: true });
+        break;
+      default:
+        this.send(res, 405, errorBody('method_not_allowed', `${method} /help_center/collections/${id}`));
+    }
+  }
+
+  private handleHelpCenters(res: http.ServerResponse, method: string, id: string | undefined, url: URL): void {
+    if (method !== 'GET') {
+      this.send(res, 405, errorBody('method_not_allowed', `${method} /help_center/help_centers`));
+      return;
+    }
+
+    if (!id) {
+      this.send(res, 200, this.paginate(Array.from(this.helpCenters.values()), url, helpCenter => helpCenter));
+      return;
+    }
+
+    const helpCenter = this.helpCenters.get(id);
+    if (helpCenter) {
+      this.send(res, 200, helpCenter);
+    } else {
+      this.send(res, 404, errorBody('not_found', 'Resource Not Found'));
+    }
+  }
+
+  private paginate<T>(items: T[], url: URL, serialize: (item: T) => unknown): Record<string, unknown> {
+    const perPage = Math.min(Number(url.searchParams.get('per_page')) || 50, this.maxPerPage);
+    const page = Number(url.searchParams.get('page')) || 1;
+    const totalPages = Math.max(1, Math.ceil(items.length / perPage));
+
+    return {
+      type: 'list',
+      pages: { type: 'pages', page, per_page: perPage, total_pages: totalPages },
+      total_count: items.length,
+      data: items.slice((page - 1) * perPage, page * perPage).map(serialize),
+    };
+  }
+
+  private takeFailure(method: string, path: string): InjectedFailure | undefined {
+    const index = this.failures.findIndex(failure =>
+      (!failure.method || failure.method === method) &&
+      (!failure.path || (typeof failure.path === 'string' ? failure.path === path : failure.path.test(path)))
+    );
+    if (index === -1) {
+      return undefined;
+    }
+
+    const failure = this.failures[index];
+    failure.times--;
+    if (failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure;
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  private generateId(): string {
+    return String(this.nextId++);
+  }
+
+  /**
+   * Current time in seconds, strictly increasing so every change gets a newer updated_at
+   */
+  private timestamp(): number {
+    this.lastTimestamp = Math.max(Math.floor(Date.now() / 1000), this.lastTimestamp + 1);
+    return this.lastTimestamp;
+  }
+}
+
+/**
+ * Pick the article fields of a create/update request body
+ * Translations that changed get `now` as their updated_at
+ */
+function articleChanges(
+  article: IntercomArticle | undefined,
+  body: Record<string, unknown>,
+  now: number
+): Partial<IntercomArticle> {
+  const changes: Partial<IntercomArticle> = {};
+
+  for (const key of ['title', 'body', 'description', 'state', 'parent_type'] as const) {
+    if (body[key] !== undefined) {
+      (changes as Record<string, unknown>)[key] = body[key];
+    }
+  }
+  if (body.author_id !== undefined) {
+    changes.author_id = Number(body.author_id);
+  }
+  if (body.parent_id !== undefined && body.parent_id !== null) {
+    changes.parent_id = String(body.parent_id);
+  }
+  if (body.translated_content && typeof body.translated_content === 'object') {
+    const translations: NonNullable<IntercomArticle['translated_content']> = { ...article?.translated_content };
+    for (const [locale, value] of Object.entries(body.translated_content)) {
+      if (!value || typeof value !== 'object') {
+        continue;
+      }
+      const previous = translations[locale];
+      const translation = { ...previous, ...(value as typeof previous) };
+      const changed = !previous || (['title', 'body', 'description', 'state', 'author_id'] as const)
+        .some(key => translation[key] !== previous[key]);
+      translations[locale] = {
+        ...translation,
+        created_at: previous?.created_at || now,
+        updated_at: changed ? now : previous.updated_at,
+      };
+    }
+    changes.translated_content = translations;
+  }
+
+  return changes;
+}
+
+/**
+ * Pick the collection fields of a create/update request body
+ */
+function collectionChanges(
+  collection: IntercomCollection | undefined,
+  body: Record<string, unknown>
+): Partial<IntercomCollection> {
+  const changes: Partial<IntercomCollection> = {};
+
+  if (body.name !== undefined) {
+    changes.name = String(body.name);
+  }
+  if (body.description !== undefined) {
+    changes.description = String(body.description);
+  }
+  if (body.parent_id !== undefined) {
+    changes.parent_id = body.parent_id === null ? null : String(body.parent_id);
+  }
+  // The help center of a collection is set on creation only
+  if (!collection && body.help_center_id !== undefined) {
+    changes.help_center_id = String(body.help_center_id);
+  }
+  if (body.translated_content && typeof body.translated_content === 'object') {
+    changes.translated_content = {
+      ...collection?.translated_content,
+      ...(body.translated_content as IntercomCollection['translated_content']),
+    };
+  }
+
+  return changes;
+}
+
+/**
+ * Collection as returned by the API (translated_content carries a `type` key)
+ */
+function serializeCollection(collection: IntercomCollection): Record<string, unknown> {
+  return {
+    ...collection,
+    translated_content: collection.translated_content
+      ? { type: 'group_translated_content', ...collection.translated_content }
+      : undefined,
+  };
+}
+
+/**
+ * Article as returned by the API (translated_content carries a `type` key)
+ */
+function serializeArticle(article: IntercomArticle): Record<string, unknown> {
+  return {
+    ...article,
+    translated_content: article.translated_content
+      ? { type: 'article_translated_content', ...article.translated_content }
+      : undefined,
+  };
+}
+
+function errorBody(code: string, message: string): Record<string, unknown> {
+  return { type: 'error.list', errors: [{ code, message }] };
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Record<string, unknown> | undefined> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf-8');
+  return text ? JSON.parse(text) as Record<string, unknown> : undefined;
+}
@@ -0,0 +1,147 @@
+/**
+ * In-process stand-in for an S3-compatible object store (MinIO-style, path-style addressing)
+ * Accepts PUT /{bucket}/{key} signed with Signature Version 4 and serves stored objects on GET.
+ * Point an "s3" imageUploader at it with endpoint.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { signS3Request } from '../utils/image-uploaders';
+
+export interface FakeS3Options {
+  /** Bucket accepting uploads (default: 'images') */
+  bucket?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  region?: string;
+}
+
+export interface StoredObject {
+  data: Buffer;
+  contentType?: string;
+}
+
+export class FakeS3Server {
+  /** Stored objects by key (without the bucket) */
+  readonly objects = new Map<string, StoredObject>();
+  /** Keys of accepted PUT requests, in order */
+  readonly uploads: string[] = [];
+
+  private server: http.Server | null = null;
+  private bucket: string;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+  private region: string;
+
+  constructor(options: FakeS3Options = {}) {
+    this.bucket = options.bucket ?? 'images';
+    this.accessKeyId = options.accessKeyId ?? 'test-access-key';
+    this.secretAccessKey = options.secretAccessKey ?? 'test-secret-key';
+    this.region = options.region ?? 'us-east-1';
+  }
+
+  /**
+   * Start listening on a random local port, returning the endpoint URL
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        sendError(res, 500, 'InternalError', String(error));
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Fake S3 server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = (req.method || 'GET').toUpperCase();
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const [bucket, ...keyParts] = url.pathname.split('/').filter(Boolean);
+    const key = keyParts.map(decodeURIComponent).join('/');
+
+    if (bucket !== this.bucket || !key) {
+      sendError(res, 404, 'NoSuchBucket', `No bucket for ${url.pathname}`);
+      return;
+    }
+
+    if (method === 'GET') {
+      const object = this.objects.get(key);
+      if (!object) {
+        sendError(res, 404, 'NoSuchKey', `No object ${key}`);
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': object.contentType || 'application/octet-stream' });
+      res.end(object.data);
+      return;
+    }
+
+    if (method !== 'PUT') {
+      sendError(res, 405, 'MethodNotAllowed', `${method} is not supported`);
+      return;
+    }
+
+    const data = await readBody(req);
+    if (!this.isSigned(req, url, data)) {
+      sendError(res, 403, 'SignatureDoesNotMatch', 'The request signature we calculated does not match');
+      return;
+    }
+
+    this.objects.set(key, { data, contentType: req.headers['content-type'] });
+    this.uploads.push(key);
+    res.writeHead(200, { ETag: '"fake"' });
+    res.end();
+  }
+
+  /**
+   * Check the Signature Version 4 Authorization header against the configured credentials
+   */
+  private isSigned(req: http.IncomingMessage, url: URL, data: Buffer): boolean {
+    const amzDate = req.headers['x-amz-date'];
+    const match = typeof amzDate === 'string' && amzDate.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+    if (!match) {
+      return false;
+    }
+
+    const [, year, month, day, hours, minutes, seconds] = match;
+    const expected = signS3Request(
+      'PUT',
+      url,
+      data,
+      { region: this.region, accessKeyId: this.accessKeyId, secretAccessKey: this.secretAccessKey },
+      new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}Z`)
+    );
+    return req.headers.authorization === expected.Authorization &&
+      req.headers['x-amz-content-sha256'] === expected['x-amz-content-sha256'];
+  }
+}
+
+function sendError(res: http.ServerResponse, status: number, code: string, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/xml' });
+  res.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${message}</Message></Error>`);
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
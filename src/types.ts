@@ -1,10 +1,93 @@
+import type { SyncErrorCode } from './errors';
+
 export interface IntercomConfig {
   intercomAccessToken: string;
   articlesDir: string;
   defaultLocale?: string;  // Optional: determined from article.default_locale during sync
   supportedLocales?: string[];  // Optional: all translations are synced if not specified
+  pruneOrphans?: OrphanStrategy;  // Optional: how pull handles articles deleted in Intercom (default: flag)
+  concurrency?: number;  // Optional: parallel API requests for article fetches and pushes (default: 4)
+  maxRetries?: number;  // Optional: retries on rate limits, 5xx and network errors (default: 3)
+  requestTimeout?: number;  // Optional: per-request timeout in milliseconds (default: 30000)
+  region?: IntercomRegion;  // Optional: data hosting region of the workspace (default: us)
+  apiBaseUrl?: string;  // Optional: explicit API base URL, overrides region
+  apiVersion?: string;  // Optional: Intercom-Version header (default: 2.10)
+  helpCenters?: HelpCenterConfig[];  // Optional: sync several help centers, each to its own directory
+  helpCenterId?: string;  // Optional: only sync this help center's collections and articles into articlesDir
+  pathTemplate?: string;  // Optional: file path of pulled articles (default: {locale}/{collection}/{slug}.md)
+  slugStrategy?: SlugStrategy;  // Optional: how slugs are derived from titles (default: title)
+  downloadImages?: boolean;  // Optional: pull downloads Intercom-hosted images into _assets (default: false)
+  imageUploader?: ImageUploaderConfig;  // Optional: hosts local images referenced by articles on push
+}
+
+/**
+ * Where push uploads local images (relative paths in markdown) before sending them to Intercom
+ */
+export type ImageUploaderConfig = LocalUploaderConfig | S3UploaderConfig;
+
+/**
+ * Copy images into a directory served by a static server
+ */
+export interface LocalUploaderConfig {
+  type: 'local';
+  dir: string;  // Relative to the config file
+  baseUrl: string;  // Public URL of dir
+}
+
+/**
+ * Upload images to an S3-compatible bucket
+ */
+export interface S3UploaderConfig {
+  type: 's3';
+  bucket: string;
+  region?: string;  // Default: us-east-1
+  endpoint?: string;  // S3-compatible server (e.g. MinIO), addressed path-style; default: AWS S3
+  prefix?: string;  // Key prefix, e.g. "help-images/"
+  publicUrl?: string;  // Public URL of the prefix (e.g. a CDN); default: the object URL
+  accessKeyId?: string;  // Default: env:AWS_ACCESS_KEY_ID
+  secretAccessKey?: string;  // Default: env:AWS_SECRET_ACCESS_KEY
+}
+
+/**
+ * A help center synced to its own articles directory
+ */
+export interface HelpCenterConfig {
+  id: string;
+  articlesDir: string;  // Relative to the config file
+  name?: string;  // Label for CLI output (default: id)
 }
 
+/**
+ * How the slug of a pulled article's file name is derived
+ * - title: the title as is (spaces replaced by hyphens)
+ * - id: the article ID
+ * - transliterate: the title romanized to lowercase ASCII
+ * A `slug` key in front matter overrides the strategy
+ */
+export type SlugStrategy = 'title' | 'id' | 'transliterate';
+
+/**
+ * Intercom data hosting region
+ */
+export type IntercomRegion = 'us' | 'eu' | 'au';
+
+/**
+ * Progress of a sync operation
+ */
+export interface SyncProgress {
+  completed: number;
+  total: number;
+  perSecond: number;
+}
+
+/**
+ * How pull handles local files whose article (or collection) was deleted in Intercom
+ * - flag: set `orphaned: true` in front matter / _collection.yml (skipped on push)
+ * - archive: move the file to the .archive folder
+ * - delete: delete the file
+ */
+export type OrphanStrategy = 'flag' | 'archive' | 'delete';
+
 export interface ArticleFrontMatter {
   intercom_id?: string;
   intercom_collection_id?: string;
@@ -13,7 +96,20 @@ export interface ArticleFrontMatter {
   updated_at?: string;
   status?: 'published' | 'draft';
   title?: string;
+  description?: string;
+  attachments?: ArticleAttachment[];  // Files attached to the article (see ArticleAttachment)
+  slug?: string;  // Pinned slug for the file name (see SlugStrategy)
   author_id?: number;
+  orphaned?: boolean;
+  [key: string]: unknown;  // Custom keys (e.g. owner, tags), kept as they are by pull
+}
+
+/**
+ * A file attached to an article, kept in front matter instead of the body
+ */
+export interface ArticleAttachment {
+  name: string;
+  url: string;  // Without signature parameters (restored on push)
 }
 
 export interface IntercomArticle {
@@ -28,6 +124,7 @@ export interface IntercomArticle {
   updated_at: number;
   url?: string;
   parent_id?: string;
+  parent_ids?: string[];  // All parent collections (one per help center the article is in)
   parent_type?: string;
   default_locale: string;
   translated_content?: {
@@ -44,6 +141,18 @@ export interface IntercomArticle {
   };
 }
 
+/**
+ * Content and metadata of one locale of an article
+ */
+export interface ArticleLocaleContent {
+  title: string;
+  body: string;
+  description?: string;
+  state: 'published' | 'draft';
+  author_id: number;
+  updated_at: number;
+}
+
 export interface IntercomCollection {
   id: string;
   type: 'collection';
@@ -55,6 +164,8 @@ export interface IntercomCollection {
   url?: string;
   icon?: string;
   order?: number;
+  parent_id?: string | null;  // Parent collection (nested collections), null at the top level
+  help_center_id?: string;
   default_locale: string;
   translated_content?: {
     [locale: string]: {
@@ -65,6 +176,36 @@ export interface IntercomCollection {
   };
 }
 
+/**
+ * Collection metadata, stored as _collection.yml in each collection folder (one per locale)
+ * icon and order are read-only in the Intercom API: pulled for reference, never pushed
+ */
+export interface CollectionMetadata {
+  intercom_id?: string;
+  locale: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  order?: number;
+  updated_at?: string;
+  orphaned?: boolean;  // Set by pull when the collection was deleted in Intercom
+}
+
+export interface LocalCollection {
+  filePath: string;
+  metadata: CollectionMetadata;
+}
+
+export interface IntercomHelpCenter {
+  id: string;
+  workspace_id: string;
+  identifier: string;
+  display_name?: string;
+  website_turned_on: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
 export interface IntercomCollectionsResponse {
   type: 'list';
   pages: {
@@ -95,14 +236,102 @@ export interface LocalArticle {
   content: string;
 }
 
+/**
+ * Manifest entry for one article locale, as of the last pull/push
+ */
+export interface ManifestEntry {
+  path: string;  // Relative to articlesDir
+  updated_at?: string;  // Remote updated_at (ISO)
+  remote_hash?: string;  // Hash of the remote HTML
+  local_hash?: string;  // Hash of the local markdown body and attachments
+  metadata?: ArticleMetadata;  // Remote title, state, description, author and collection
+}
+
+/**
+ * Title, state, description, author and collection of an article locale
+ * (recorded in the manifest, to tell metadata edited in Intercom from stale local values)
+ */
+export interface ArticleMetadata {
+  title: string;
+  state: 'published' | 'draft';
+  description: string;
+  author_id: number;
+  parent_id: string | null;  // null outside any collection
+}
+
+/**
+ * Sync manifest (.intercom-sync.json in articlesDir): intercom_id -> locale -> entry
+ */
+export interface SyncManifest {
+  version: 1;
+  last_pull_at?: string;  // Time of the last successful full pull (ISO)
+  articles: Record<string, Record<string, ManifestEntry>>;
+  assets?: Record<string, string>;  // Downloaded image path (relative to articlesDir) -> Intercom URL
+  uploads?: Record<string, string>;  // Content hash (SHA-256) of an uploaded local image -> its URL
+}
+
+/**
+ * An Intercom article (with all its translations) to be deleted
+ */
+export interface DeletionCandidate {
+  intercomId: string;
+  title: string;
+  locales: string[];
+  files: string[];
+}
+
+/**
+ * Sync state of a single article locale, comparing local, remote and the last synced base
+ */
+export type ArticleSyncState =
+  | 'unchanged'
+  | 'local-modified'
+  | 'remote-modified'
+  | 'both-modified'
+  | 'local-only'
+  | 'remote-only'
+  | 'remote-deleted'
+  | 'invalid';
+
+export interface ArticleStatus {
+  state: ArticleSyncState;
+  locale: string;
+  title: string;
+  intercomId?: string;
+  file?: string;
+  error?: string;  // Why an invalid file couldn't be read
+}
+
+/**
+ * How pull handles a local file that was edited since the last pull
+ * - skip: leave the local file untouched
+ * - side-file: write the remote version next to it as <name>.remote.md
+ * - merge: three-way merge, inserting conflict markers where edits overlap
+ */
+export type PullConflictStrategy = 'skip' | 'side-file' | 'merge';
+
 export interface SyncResult {
   success: boolean;
   created: number;
   updated: number;
   skipped: number;
+  orphaned: number;
+  deleted: number;
+  collections?: {
+    created: number;
+    updated: number;
+  };
   errors: Array<{
     file?: string;
     articleId?: string;
+    locale?: string;
+    code?: SyncErrorCode;
+    status?: number;
     error: string;
   }>;
+  conflicts: Array<{
+    file: string;
+    articleId?: string;
+    resolution: PullConflictStrategy;
+  }>;
 }
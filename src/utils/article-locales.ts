@@ -0,0 +1,58 @@
+import { ArticleLocaleContent, ArticleMetadata, IntercomArticle } from '../types';
+
+const METADATA_KEYS: Array<keyof ArticleMetadata> = ['title', 'state', 'description', 'author_id', 'parent_id'];
+
+/**
+ * Get the content of an article locale: the article itself for the default locale,
+ * its translated_content entry otherwise (null if missing or not started)
+ * Translations without their own state, author or updated_at fall back to the article's
+ */
+export function getLocaleContent(article: IntercomArticle, locale: string): ArticleLocaleContent | null {
+  if (locale === article.default_locale) {
+    return {
+      title: article.title || '',
+      body: article.body || '',
+      description: article.description || undefined,
+      state: article.state,
+      author_id: article.author_id,
+      updated_at: article.updated_at,
+    };
+  }
+
+  const translation = article.translated_content?.[locale];
+  if (!translation || (!translation.title && !translation.body)) {
+    return null;
+  }
+  return {
+    title: translation.title || '',
+    body: translation.body || '',
+    description: translation.description || undefined,
+    state: translation.state || article.state,
+    author_id: translation.author_id || article.author_id,
+    updated_at: translation.updated_at || article.updated_at,
+  };
+}
+
+/**
+ * Get the title, state, description, author and collection of an article locale (undefined if the locale is missing)
+ */
+export function getLocaleMetadata(article: IntercomArticle, locale: string): ArticleMetadata | undefined {
+  const content = getLocaleContent(article, locale);
+  if (!content) {
+    return undefined;
+  }
+  return {
+    title: content.title,
+    state: content.state,
+    description: content.description || '',
+    author_id: content.author_id,
+    parent_id: article.parent_id ? String(article.parent_id) : null,
+  };
+}
+
+/**
+ * Get the metadata fields that differ between two versions of an article locale
+ */
+export function getMetadataChanges(from: ArticleMetadata, to: ArticleMetadata): Array<keyof ArticleMetadata> {
+  return METADATA_KEYS.filter(key => from[key] !== to[key]);
+}
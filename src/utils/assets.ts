@@ -0,0 +1,125 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import axios from 'axios';
+import { SyncManifest } from '../types';
+import { ensureDir, exists } from './file-manager';
+import { restoreImageSignatures } from './markdown';
+import { decodeHtmlEntities } from './html-to-markdown';
+import { IntercomApiError, errorMessage } from '../errors';
+
+/**
+ * Folder (inside articlesDir) for downloaded images, one subfolder per article
+ */
+export const ASSETS_DIR = '_assets';
+
+/**
+ * Fetch an image, returning its bytes
+ */
+export type ImageFetcher = (url: string) => Promise<Buffer>;
+
+export const defaultImageFetcher: ImageFetcher = async url => {
+  const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 30000 });
+  return Buffer.from(response.data);
+};
+
+// Markdown images hosted by Intercom (URLs without signatures, as written by htmlToMarkdown)
+const INTERCOM_IMAGE_REGEX = /(!\[[^\]]*\]\()(https:\/\/(?:downloads\.intercomcdn\.com|[a-z0-9.-]*intercom-attachments[a-z0-9.-]*)[^)\s]*)\)/g;
+
+// Markdown images pointing into the assets folder, at any depth
+const ASSET_IMAGE_REGEX = new RegExp(`(!\\[[^\\]]*\\]\\()(?:\\.\\.?\\/)*(${ASSETS_DIR}\\/[^)\\s]+)\\)`, 'g');
+
+/**
+ * Get the asset path (relative to articlesDir) of an image of an article,
+ * e.g. "_assets/123/1a2b3c4d-image.png"
+ */
+export function getAssetPath(intercomId: string, url: string): string {
+  const hash = crypto.createHash('sha256').update(url).digest('hex').slice(0, 8);
+  const name = decodeURIComponent(path.posix.basename(new URL(url).pathname)) || 'image';
+  return `${ASSETS_DIR}/${intercomId}/${hash}-${name.replace(/[/\\:*?"<>|\s]/g, '-')}`;
+}
+
+/**
+ * Download the Intercom-hosted images of a markdown body into _assets/<intercomId>/,
+ * recording each asset path and its URL in the manifest
+ * Images downloaded before are skipped
+ * @param signedHtml - The article HTML, whose signed URLs are used to download
+ */
+export async function downloadImages(
+  markdown: string,
+  signedHtml: string,
+  intercomId: string,
+  articlesDir: string,
+  manifest: SyncManifest,
+  fetchImage: ImageFetcher = defaultImageFetcher
+): Promise<void> {
+  const urls = new Set(Array.from(markdown.matchAll(INTERCOM_IMAGE_REGEX), match => match[2]));
+
+  for (const url of urls) {
+    const assetPath = getAssetPath(intercomId, url);
+    const filePath = path.join(articlesDir, assetPath);
+    if (manifest.assets?.[assetPath] === url && await exists(filePath)) {
+      continue;
+    }
+
+    let data: Buffer;
+    try {
+      // Signed URLs are taken from the HTML, so their query string is still entity-encoded
+      data = await fetchImage(decodeHtmlEntities(restoreImageSignatures(url, signedHtml)));
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new IntercomApiError(`Failed to download image ${url}: ${errorMessage(error)}`, status, undefined, {
+        articleId: intercomId,
+      });
+    }
+
+    await ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, data);
+    manifest.assets = { ...manifest.assets, [assetPath]: url };
+  }
+}
+
+/**
+ * Replace Intercom image URLs with relative paths to their downloaded assets
+ * (images not downloaded keep their URL)
+ */
+export function localizeImages(
+  markdown: string,
+  intercomId: string,
+  filePath: string,
+  articlesDir: string,
+  manifest: SyncManifest
+): string {
+  return markdown.replace(INTERCOM_IMAGE_REGEX, (match, prefix, url) => {
+    const assetPath = getAssetPath(intercomId, url);
+    if (manifest.assets?.[assetPath] !== url) {
+      return match;
+    }
+    return `${prefix}${getRelativeAssetLink(assetPath, filePath, articlesDir)})`;
+  });
+}
+
+/**
+ * Replace links to downloaded assets with their Intercom URLs
+ * Links are matched from the assets folder on, so they resolve even after the file was moved
+ */
+export function resolveAssetLinks(markdown: string, manifest: SyncManifest): string {
+  return markdown.replace(ASSET_IMAGE_REGEX, (match, prefix, assetPath) => {
+    const url = manifest.assets?.[assetPath];
+    return url ? `${prefix}${url})` : match;
+  });
+}
+
+/**
+ * Rewrite links to downloaded assets relative to a (moved) file
+ */
+export function relinkAssets(markdown: string, filePath: string, articlesDir: string): string {
+  return markdown.replace(ASSET_IMAGE_REGEX, (match, prefix, assetPath) =>
+    `${prefix}${getRelativeAssetLink(assetPath, filePath, articlesDir)})`
+  );
+}
+
+function getRelativeAssetLink(assetPath: string, filePath: string, articlesDir: string): string {
+  const relative = path.relative(path.dirname(filePath), path.join(articlesDir, assetPath));
+  return relative.split(path.sep).join('/');
+}
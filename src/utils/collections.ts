@@ -0,0 +1,136 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CollectionMetadata, IntercomCollection, LocalCollection } from '../types';
+import { exists, ensureDir } from './file-manager';
+import { LocalParseError, errorMessage } from '../errors';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const yaml = require('js-yaml');
+
+/**
+ * Collection metadata file, one per collection folder and locale
+ */
+export const COLLECTION_FILE = '_collection.yml';
+
+/**
+ * Slug-friendly version of a collection name, used as its folder name
+ */
+export function collectionSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '') // Remove special characters except hyphens
+    .replace(/\s+/g, '-') // Replace spaces with hyphens
+    .replace(/-+/g, '-') // Replace multiple hyphens with single
+    .trim();
+}
+
+/**
+ * Build the folder path of each collection (ID -> path), nesting sub-collections
+ * under their ancestors, e.g. "getting-started/setup"
+ */
+export function buildCollectionPaths(collections: IntercomCollection[]): Map<string, string> {
+  const byId = new Map(collections.map(collection => [collection.id, collection]));
+  const paths = new Map<string, string>();
+
+  const resolve = (collection: IntercomCollection, visiting: Set<string>): string => {
+    const cached = paths.get(collection.id);
+    if (cached) {
+      return cached;
+    }
+
+    const folder = collectionSlug(collection.name) || collection.id;
+    const parent = collection.parent_id ? byId.get(collection.parent_id) : undefined;
+
+    // Unknown parents and cycles fall back to a top-level folder
+    visiting.add(collection.id);
+    const folderPath = parent && !visiting.has(parent.id)
+      ? `${resolve(parent, visiting)}/${folder}`
+      : folder;
+    paths.set(collection.id, folderPath);
+    return folderPath;
+  };
+
+  for (const collection of collections) {
+    resolve(collection, new Set());
+  }
+  return paths;
+}
+
+/**
+ * Get the metadata file path of the collection folder containing a file
+ */
+export function getCollectionFileForArticle(articleFile: string): string {
+  return path.join(path.dirname(articleFile), COLLECTION_FILE);
+}
+
+/**
+ * Read and parse a collection metadata file
+ */
+export async function readCollection(filePath: string): Promise<LocalCollection> {
+  const content = await fs.readFile(filePath, 'utf-8');
+
+  let metadata: CollectionMetadata;
+  try {
+    metadata = yaml.load(content) as CollectionMetadata;
+  } catch (error) {
+    throw new LocalParseError(`Invalid collection metadata in ${filePath}: ${errorMessage(error)}`, { file: filePath });
+  }
+
+  if (!metadata || typeof metadata !== 'object' || !metadata.name || !metadata.locale) {
+    throw new LocalParseError(`Collection metadata in ${filePath} needs name and locale`, { file: filePath });
+  }
+  if (metadata.intercom_id !== undefined) {
+    metadata.intercom_id = String(metadata.intercom_id);
+  }
+
+  return { filePath, metadata };
+}
+
+/**
+ * Write a collection metadata file, omitting empty fields
+ */
+export async function writeCollection(filePath: string, metadata: CollectionMetadata): Promise<void> {
+  const data = Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined && value !== null && value !== '')
+  );
+
+  await ensureDir(path.dirname(filePath));
+  await fs.writeFile(filePath, yaml.dump(data, { quotingType: '"', lineWidth: -1 }), 'utf-8');
+}
+
+/**
+ * Delete a collection metadata file
+ */
+export async function removeCollectionFile(filePath: string): Promise<void> {
+  if (await exists(filePath)) {
+    await fs.unlink(filePath);
+  }
+}
+
+/**
+ * Get all collection metadata files (skipping tool directories such as .original and .archive)
+ */
+export async function getAllCollectionFiles(dirPath: string): Promise<string[]> {
+  const files: string[] = [];
+
+  if (!(await exists(dirPath))) {
+    return files;
+  }
+
+  async function walk(currentPath: string) {
+    const entries = await fs.readdir(currentPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(currentPath, entry.name);
+
+      if (entry.isDirectory() && !entry.name.startsWith('.')) {
+        await walk(fullPath);
+      } else if (entry.isFile() && entry.name === COLLECTION_FILE) {
+        files.push(fullPath);
+      }
+    }
+  }
+
+  await walk(dirPath);
+  return files;
+}
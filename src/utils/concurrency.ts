@@ -0,0 +1,51 @@
+import { SyncProgress } from '../types';
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ * Results keep the order of the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Create a progress tracker; call the returned function each time an item completes
+ */
+export function trackProgress(
+  total: number,
+  onProgress?: (progress: SyncProgress) => void
+): () => void {
+  const startedAt = Date.now();
+  let completed = 0;
+
+  return () => {
+    completed++;
+    if (onProgress) {
+      const elapsedSeconds = Math.max((Date.now() - startedAt) / 1000, 0.001);
+      onProgress({ completed, total, perSecond: completed / elapsedSeconds });
+    }
+  };
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -2,6 +2,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { LocalArticle, ArticleFrontMatter, IntercomConfig } from '../types';
 import { parseMarkdown, stringifyMarkdown } from './markdown';
+import { LocalParseError, ConfigError, errorMessage } from '../errors';
 
 /**
  * Check if a file or directory exists
@@ -29,13 +30,17 @@ export async function ensureDir(dirPath: string): Promise<void> {
  */
 export async function readArticle(filePath: string): Promise<LocalArticle> {
   const content = await fs.readFile(filePath, 'utf-8');
-  const { frontMatter, content: body } = parseMarkdown(content);
-  
-  return {
-    filePath,
-    frontMatter,
-    content: body,
-  };
+
+  try {
+    const { frontMatter, content: body } = parseMarkdown(content);
+    return {
+      filePath,
+      frontMatter,
+      content: body,
+    };
+  } catch (error) {
+    throw new LocalParseError(`Invalid front matter in ${filePath}: ${errorMessage(error)}`, { file: filePath });
+  }
 }
 
 /**
@@ -71,9 +76,10 @@ export async function getAllMarkdownFiles(
     for (const entry of entries) {
       const fullPath = path.join(currentPath, entry.name);
       
-      if (entry.isDirectory()) {
+      // Skip tool directories such as .original and .archive
+      if (entry.isDirectory() && !entry.name.startsWith('.')) {
         await walk(fullPath);
-      } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      } else if (entry.isFile() && entry.name.endsWith('.md') && !isSideFile(fullPath)) {
         files.push(fullPath);
       }
     }
@@ -84,18 +90,22 @@ export async function getAllMarkdownFiles(
 }
 
 /**
- * Find article file by Intercom ID
+ * Find article file by Intercom ID (and locale, since translations share the same ID)
  */
 export async function findArticleByIntercomId(
   articlesDir: string,
-  intercomId: string
+  intercomId: string,
+  locale?: string
 ): Promise<string | null> {
   const files = await getAllMarkdownFiles(articlesDir);
   
   for (const file of files) {
     try {
       const article = await readArticle(file);
-      if (article.frontMatter.intercom_id === intercomId) {
+      if (
+        article.frontMatter.intercom_id === intercomId &&
+        (!locale || article.frontMatter.locale === locale)
+      ) {
         return file;
       }
     } catch (error) {
@@ -107,6 +117,90 @@ export async function findArticleByIntercomId(
   return null;
 }
 
+/**
+ * Index article files by "intercom_id:locale", reading every file once
+ * (the first file wins when several share an ID and locale; files that can't be parsed are skipped)
+ */
+export async function indexArticlesByIntercomId(articlesDir: string): Promise<Map<string, string>> {
+  const index = new Map<string, string>();
+
+  for (const file of await getAllMarkdownFiles(articlesDir)) {
+    try {
+      const { intercom_id: intercomId, locale } = (await readArticle(file)).frontMatter;
+      if (intercomId && !index.has(`${intercomId}:${locale}`)) {
+        index.set(`${intercomId}:${locale}`, file);
+      }
+    } catch {
+      // Skip files that can't be parsed
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Find markdown files that have a base snapshot but no longer exist (deleted locally)
+ */
+export async function getDeletedSnapshotFiles(articlesDir: string): Promise<string[]> {
+  const snapshotDir = path.join(articlesDir, SNAPSHOT_DIR);
+  const deleted: string[] = [];
+
+  if (!(await exists(snapshotDir))) {
+    return deleted;
+  }
+
+  async function walk(currentPath: string) {
+    const entries = await fs.readdir(currentPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(currentPath, entry.name);
+
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.isFile() && entry.name.endsWith('.html')) {
+        const relativePath = path.relative(snapshotDir, fullPath).replace(/\.html$/, '.md');
+        const filePath = path.join(articlesDir, relativePath);
+        if (!(await exists(filePath))) {
+          deleted.push(filePath);
+        }
+      }
+    }
+  }
+
+  await walk(snapshotDir);
+  return deleted;
+}
+
+/**
+ * Directory (inside articlesDir) where pull moves articles deleted in Intercom
+ */
+export const ARCHIVE_DIR = '.archive';
+
+/**
+ * Move an article into the archive folder, keeping its relative path
+ */
+export async function archiveArticle(articlesDir: string, filePath: string): Promise<string> {
+  const archivePath = path.join(articlesDir, ARCHIVE_DIR, path.relative(articlesDir, filePath));
+  await ensureDir(path.dirname(archivePath));
+  await fs.rename(filePath, archivePath);
+  return archivePath;
+}
+
+/**
+ * Get the side file path used to store the remote version of a locally edited article
+ * e.g. quick-start.md -> quick-start.remote.md
+ */
+export function getSideFilePath(filePath: string): string {
+  return filePath.replace(/\.md$/, '.remote.md');
+}
+
+/**
+ * Check if a path is a side file (not an article on its own)
+ */
+export function isSideFile(filePath: string): boolean {
+  return filePath.endsWith('.remote.md');
+}
+
 /**
  * Delete a file
  */
@@ -114,6 +208,63 @@ export async function deleteArticle(filePath: string): Promise<void> {
   await fs.unlink(filePath);
 }
 
+/**
+ * Directory (inside articlesDir) holding the HTML of each article as of the last sync
+ */
+export const SNAPSHOT_DIR = '.original';
+
+/**
+ * Get the snapshot path for a markdown file
+ * e.g. help-docs/ja/getting-started/quick-start.md -> help-docs/.original/ja/getting-started/quick-start.html
+ */
+export function getSnapshotPath(articlesDir: string, filePath: string): string {
+  const relativePath = path.relative(articlesDir, filePath).replace(/\.md$/, '.html');
+  return path.join(articlesDir, SNAPSHOT_DIR, relativePath);
+}
+
+/**
+ * Read the base snapshot (HTML at last pull/push) for a markdown file
+ * Returns null if no snapshot exists
+ */
+export async function readSnapshot(articlesDir: string, filePath: string): Promise<string | null> {
+  const snapshotPath = getSnapshotPath(articlesDir, filePath);
+  if (!(await exists(snapshotPath))) {
+    return null;
+  }
+  return fs.readFile(snapshotPath, 'utf-8');
+}
+
+/**
+ * Write the base snapshot for a markdown file
+ */
+export async function writeSnapshot(articlesDir: string, filePath: string, html: string): Promise<void> {
+  const snapshotPath = getSnapshotPath(articlesDir, filePath);
+  await ensureDir(path.dirname(snapshotPath));
+  await fs.writeFile(snapshotPath, html, 'utf-8');
+}
+
+/**
+ * Delete the base snapshot for a markdown file (if any)
+ */
+export async function deleteSnapshot(articlesDir: string, filePath: string): Promise<void> {
+  const snapshotPath = getSnapshotPath(articlesDir, filePath);
+  if (await exists(snapshotPath)) {
+    await fs.unlink(snapshotPath);
+  }
+}
+
+/**
+ * Move the base snapshot of a markdown file that was moved (if any)
+ */
+export async function moveSnapshot(articlesDir: string, fromPath: string, toPath: string): Promise<void> {
+  const html = await readSnapshot(articlesDir, fromPath);
+  if (html === null || fromPath === toPath) {
+    return;
+  }
+  await writeSnapshot(articlesDir, toPath, html);
+  await deleteSnapshot(articlesDir, fromPath);
+}
+
 /**
  * Load configuration from .intercom-config.json or use defaults
  * @param configPath - Path to config file (optional - returns defaults if file doesn't exist)
@@ -125,7 +276,11 @@ export async function loadConfig(configPath?: string, basePath?: string): Promis
   // Try to load config file if path provided
   if (configPath && await exists(configPath)) {
     const content = await fs.readFile(configPath, 'utf-8');
-    config = JSON.parse(content) as Partial<IntercomConfig>;
+    try {
+      config = JSON.parse(content) as Partial<IntercomConfig>;
+    } catch (error) {
+      throw new LocalParseError(`Invalid config file ${configPath}: ${errorMessage(error)}`, { file: configPath });
+    }
   }
 
   // Apply defaults
@@ -136,15 +291,35 @@ export async function loadConfig(configPath?: string, basePath?: string): Promis
     articlesDir: config.articlesDir || defaultArticlesDir,
     defaultLocale: config.defaultLocale,
     supportedLocales: config.supportedLocales,
+    pruneOrphans: config.pruneOrphans,
+    concurrency: config.concurrency,
+    maxRetries: config.maxRetries,
+    requestTimeout: config.requestTimeout,
+    region: config.region,
+    apiBaseUrl: config.apiBaseUrl,
+    apiVersion: config.apiVersion,
+    helpCenters: config.helpCenters,
+    helpCenterId: config.helpCenterId,
+    pathTemplate: config.pathTemplate,
+    slugStrategy: config.slugStrategy,
+    downloadImages: config.downloadImages,
+    imageUploader: config.imageUploader,
   };
 
+  for (const helpCenter of finalConfig.helpCenters || []) {
+    if (!helpCenter.id || !helpCenter.articlesDir) {
+      throw new ConfigError('Each entry of helpCenters needs an id and an articlesDir', { file: configPath });
+    }
+    helpCenter.id = String(helpCenter.id);
+  }
+
   // Replace env: prefix with actual environment variable
   if (finalConfig.intercomAccessToken.startsWith('env:')) {
     const envVar = finalConfig.intercomAccessToken.slice(4);
     finalConfig.intercomAccessToken = process.env[envVar] || '';
 
     if (!finalConfig.intercomAccessToken) {
-      throw new Error(`Environment variable ${envVar} is not set. Set it with: export ${envVar}=your_token`);
+      throw new ConfigError(`Environment variable ${envVar} is not set. Set it with: export ${envVar}=your_token`);
     }
   }
 
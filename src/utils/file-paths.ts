@@ -0,0 +1,135 @@
+import { IntercomConfig, SlugStrategy } from '../types';
+import { ConfigError } from '../errors';
+import { sanitizeSlug } from './markdown';
+
+/**
+ * Default path template of pulled articles
+ */
+export const DEFAULT_PATH_TEMPLATE = '{locale}/{collection}/{slug}.md';
+
+export const SLUG_STRATEGIES: SlugStrategy[] = ['title', 'id', 'transliterate'];
+
+const PLACEHOLDERS = ['locale', 'collection', 'id', 'slug'];
+
+/**
+ * Get the validated path template and slug strategy of a config
+ * Templates must start with {locale}/{collection}/ (push derives the locale and collection of a file
+ * from its folders), so they only vary the file name
+ */
+export function getPathOptions(config: IntercomConfig): { template: string; slugStrategy: SlugStrategy } {
+  const template = config.pathTemplate || DEFAULT_PATH_TEMPLATE;
+  const slugStrategy = config.slugStrategy || 'title';
+
+  const prefix = '{locale}/{collection}/';
+  const fileName = template.slice(prefix.length);
+  if (!template.startsWith(prefix) || fileName.includes('/') || !fileName.endsWith('.md')) {
+    throw new ConfigError(`Invalid pathTemplate: ${template} (expected ${prefix}<file name>.md)`);
+  }
+  if (!fileName.includes('{id}') && !fileName.includes('{slug}')) {
+    throw new ConfigError(`Invalid pathTemplate: ${template} (the file name needs {id} or {slug})`);
+  }
+
+  const unknown = (template.match(/\{[^}]*\}/g) || []).filter(p => !PLACEHOLDERS.includes(p.slice(1, -1)));
+  if (unknown.length > 0) {
+    throw new ConfigError(`Unknown placeholder in pathTemplate: ${unknown.join(', ')} (supported: {${PLACEHOLDERS.join('}, {')}})`);
+  }
+
+  if (!SLUG_STRATEGIES.includes(slugStrategy)) {
+    throw new ConfigError(`Invalid slugStrategy: ${slugStrategy} (expected ${SLUG_STRATEGIES.join(', ')})`);
+  }
+
+  return { template, slugStrategy };
+}
+
+/**
+ * Render a path template into a path relative to the articles directory
+ */
+export function renderPathTemplate(
+  template: string,
+  values: { locale: string; collection: string; id: string; slug: string }
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: keyof typeof values) => values[name] ?? placeholder);
+}
+
+/**
+ * Generate the slug of an article from its title
+ * Falls back to "article-<id>" when nothing is left of the title
+ */
+export function generateSlug(title: string, id: string, strategy: SlugStrategy): string {
+  let slug: string;
+  switch (strategy) {
+    case 'id':
+      return id;
+    case 'transliterate':
+      slug = transliterate(title)
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+      break;
+    default:
+      slug = sanitizeSlug(title);
+  }
+  return slug || `article-${id}`;
+}
+
+// Hiragana -> romaji (Hepburn); katakana is mapped to hiragana first
+const KANA: Record<string, string> = Object.fromEntries(
+  (
+    'あ:a い:i う:u え:e お:o か:ka き:ki く:ku け:ke こ:ko が:ga ぎ:gi ぐ:gu げ:ge ご:go ' +
+    'さ:sa し:shi す:su せ:se そ:so ざ:za じ:ji ず:zu ぜ:ze ぞ:zo た:ta ち:chi つ:tsu て:te と:to ' +
+    'だ:da ぢ:ji づ:zu で:de ど:do な:na に:ni ぬ:nu ね:ne の:no は:ha ひ:hi ふ:fu へ:he ほ:ho ' +
+    'ば:ba び:bi ぶ:bu べ:be ぼ:bo ぱ:pa ぴ:pi ぷ:pu ぺ:pe ぽ:po ま:ma み:mi む:mu め:me も:mo ' +
+    'や:ya ゆ:yu よ:yo ら:ra り:ri る:ru れ:re ろ:ro わ:wa を:o ん:n ゔ:vu ゎ:wa'
+  ).split(' ').map(pair => pair.split(':'))
+);
+
+const SMALL_Y: Record<string, string> = { 'ゃ': 'a', 'ゅ': 'u', 'ょ': 'o' };
+const SMALL_VOWELS: Record<string, string> = { 'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o' };
+
+/**
+ * Romanize a title: kana to Hepburn romaji, accented letters to their base letters
+ * Characters without a romanization (e.g. kanji) are dropped
+ */
+export function transliterate(text: string): string {
+  const hiragana = text
+    .normalize('NFKC')
+    .replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+  let result = '';
+  let doubleNext = false;
+  for (const char of hiragana) {
+    if (char === 'っ') {
+      doubleNext = true;
+      continue;
+    }
+
+    let romaji = KANA[char];
+    if (SMALL_Y[char]) {
+      // Contracted sounds: きゃ -> kya, しゃ -> sha, じょ -> jo
+      if (result.endsWith('i') && result.length > 1) {
+        const base = result.slice(0, -1);
+        result = /(sh|ch|j)$/.test(base) ? base : `${base}y`;
+        romaji = SMALL_Y[char];
+      } else {
+        romaji = `y${SMALL_Y[char]}`;
+      }
+    } else if (SMALL_VOWELS[char]) {
+      // Extended katakana: チェ -> che, ファ -> fa, ティ -> ti
+      if (/[a-z][aiueo]$/.test(result)) {
+        result = result.slice(0, -1);
+      }
+      romaji = SMALL_VOWELS[char];
+    }
+    if (romaji === undefined) {
+      romaji = char === 'ー' ? '' : char;
+    }
+
+    if (doubleNext && /^[a-z]/.test(romaji)) {
+      romaji = romaji.startsWith('ch') ? `t${romaji}` : romaji[0] + romaji;
+    }
+    doubleNext = false;
+    result += romaji;
+  }
+
+  return result.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
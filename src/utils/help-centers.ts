@@ -0,0 +1,88 @@
+import * as path from 'path';
+import { IntercomArticle, IntercomCollection, IntercomConfig } from '../types';
+import { ConfigError } from '../errors';
+
+/**
+ * Get one config per help center to sync, each with its own articlesDir and helpCenterId
+ * Without configured help centers, the config itself is returned
+ * @param only - Help center ID or name to limit the sync to
+ */
+export function getHelpCenterConfigs(config: IntercomConfig, only?: string): IntercomConfig[] {
+  const helpCenters = config.helpCenters || [];
+
+  if (helpCenters.length === 0) {
+    if (only && config.helpCenterId && only !== config.helpCenterId) {
+      throw new ConfigError(`Unknown help center: ${only} (configured: ${config.helpCenterId})`);
+    }
+    return [only ? { ...config, helpCenterId: only } : config];
+  }
+
+  const selected = only
+    ? helpCenters.filter(helpCenter => helpCenter.id === only || helpCenter.name === only)
+    : helpCenters;
+  if (selected.length === 0) {
+    throw new ConfigError(
+      `Unknown help center: ${only} (configured: ${helpCenters.map(h => h.name || h.id).join(', ')})`
+    );
+  }
+
+  return selected.map(helpCenter => ({
+    ...config,
+    articlesDir: helpCenter.articlesDir,
+    helpCenterId: helpCenter.id,
+  }));
+}
+
+/**
+ * Get the label of a config's help center for output (undefined without help centers)
+ */
+export function getHelpCenterLabel(config: IntercomConfig): string | undefined {
+  const helpCenter = config.helpCenters?.find(h => h.id === config.helpCenterId);
+  return helpCenter ? helpCenter.name || helpCenter.id : config.helpCenterId;
+}
+
+/**
+ * Find the help center config whose articlesDir contains a file
+ */
+export function findHelpCenterConfig(configs: IntercomConfig[], filePath: string): IntercomConfig | undefined {
+  return configs.find(config => {
+    const relative = path.relative(config.articlesDir, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  });
+}
+
+/**
+ * Whether a config syncs the first (default) help center, which also receives
+ * articles outside any collection
+ */
+export function isDefaultHelpCenter(config: IntercomConfig): boolean {
+  return !config.helpCenters?.length || config.helpCenters[0].id === config.helpCenterId;
+}
+
+/**
+ * Check whether an article is synced by the help center of a config
+ * Articles in collections of several help centers are synced by the help center of their
+ * primary collection (parent_id) only, so they have a single local file
+ */
+export function isInHelpCenter(
+  article: IntercomArticle,
+  collectionsById: Map<string, IntercomCollection>,
+  config: IntercomConfig
+): boolean {
+  if (!config.helpCenterId) {
+    return true;
+  }
+
+  const collection = article.parent_id ? collectionsById.get(article.parent_id) : undefined;
+  if (!collection) {
+    return isDefaultHelpCenter(config);
+  }
+  return collection.help_center_id === config.helpCenterId;
+}
+
+/**
+ * Check whether a collection belongs to the help center of a config
+ */
+export function isCollectionInHelpCenter(collection: IntercomCollection, config: IntercomConfig): boolean {
+  return !config.helpCenterId || collection.help_center_id === config.helpCenterId;
+}
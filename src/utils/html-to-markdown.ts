@@ -3,7 +3,9 @@
  * Based on docs/design/html-markdown-conversion.md
  */
 
-import { stripImageSignatures } from './markdown';
+import { ATTACHMENTS_MARKER, stripImageSignatures } from './markdown';
+import { formatVideoShorthand, parseVideoEmbedUrl } from './video-embeds';
+import { ArticleAttachment } from '../types';
 
 // Callout color mapping (background color -> color name)
 const CALLOUT_COLORS: Record<string, string> = {
@@ -15,8 +17,12 @@ const CALLOUT_COLORS: Record<string, string> = {
   '#feedaf80': 'yellow',
 };
 
+// Attachment list: links to files, each optionally wrapped in its own div
+const ATTACHMENT_LIST_REGEX = /<div\s+class="intercom-interblocks-attachment-list"[^>]*>((?:\s*(?:<div[^>]*>\s*)?<a\s[^>]*>[\s\S]*?<\/a>(?:\s*<\/div>)?)*)\s*<\/div>/gi;
+
 /**
  * Convert Intercom HTML to Markdown
+ * Attachment lists are left out (see extractAttachments); a marker keeps their position when content follows
  */
 export function htmlToMarkdown(html: string): string {
   // Handle empty/undefined input
@@ -31,14 +37,35 @@ export function htmlToMarkdown(html: string): string {
 
   // Process in order of specificity (more specific patterns first)
 
-  // 1. Handle collapsible sections (keep as raw HTML)
-  // Already raw HTML, no conversion needed
+  // 0. Remove attachment lists (kept in front matter), marking the position of the first one
+  // outside collapsible sections when content follows it
+  let marked = false;
+  result = result.replace(ATTACHMENT_LIST_REGEX, (match, links, offset: number, source: string) => {
+    const before = source.slice(0, offset);
+    const inCollapsible = (before.match(/<details[\s>]/gi) || []).length > (before.match(/<\/details>/gi) || []).length;
+    const hasContentAfter = source.slice(offset + match.length).replace(ATTACHMENT_LIST_REGEX, '').trim() !== '';
+    if (marked || inCollapsible || !hasContentAfter) {
+      return '\n\n';
+    }
+    marked = true;
+    return `\n\n${ATTACHMENTS_MARKER}\n\n`;
+  });
 
-  // 2. Handle videos (keep as raw HTML)
-  // Already raw HTML, no conversion needed
+  // 1. Handle collapsible sections - converted on their own (recursively), then set aside
+  // so their markdown isn't processed again by the steps below
+  const collapsibles: string[] = [];
+  result = replaceCollapsibles(result, markdown => {
+    collapsibles.push(markdown);
+    return `\n\n${collapsiblePlaceholder(collapsibles.length - 1)}\n\n`;
+  });
 
-  // 3. Handle buttons (keep as raw HTML)
-  // Already raw HTML, no conversion needed
+  // 2. Handle videos - convert to <!-- video:provider:id --> shorthands
+  // (embeds from other providers are kept as raw HTML)
+  result = convertVideos(result);
+
+  // 3. Handle buttons - convert to <!-- button:url -->text<!-- /button --> shorthands
+  // (before links, which would turn them into plain links)
+  result = convertButtons(result);
 
   // 4. Handle tables - convert to Markdown tables
   result = convertTables(result);
@@ -76,9 +103,137 @@ export function htmlToMarkdown(html: string): string {
   // 15. Clean up empty paragraphs and extra whitespace
   result = cleanupWhitespace(result);
 
+  // 16. Put back collapsible sections
+  collapsibles.forEach((markdown, index) => {
+    result = result.replace(collapsiblePlaceholder(index), () => markdown);
+  });
+
   return result.trim();
 }
 
+/**
+ * Extract the attachments (name + URL) of Intercom HTML, for the front matter
+ * Signature parameters are stripped from URLs, as for images
+ */
+export function extractAttachments(html: string): ArticleAttachment[] {
+  const attachments: ArticleAttachment[] = [];
+  if (!html) {
+    return attachments;
+  }
+
+  const listRegex = new RegExp(ATTACHMENT_LIST_REGEX.source, 'gi');
+  const stripped = stripImageSignatures(html);
+  let listMatch;
+
+  while ((listMatch = listRegex.exec(stripped)) !== null) {
+    const linkRegex = /<a\s+[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi;
+    let linkMatch;
+
+    while ((linkMatch = linkRegex.exec(listMatch[1])) !== null) {
+      attachments.push({
+        name: decodeHtmlEntities(stripHtmlTags(linkMatch[2])).trim(),
+        url: linkMatch[1],
+      });
+    }
+  }
+
+  return attachments;
+}
+
+/**
+ * Replace each outermost collapsible section (<details>) with the result of a callback, given its markdown:
+ *
+ * :::collapsible
+ * ## Section Title
+ *
+ * Content (nested sections included)
+ * :::
+ *
+ * Sections not in Intercom's format (summary + collapsible-section-content div) are kept as raw HTML
+ */
+function replaceCollapsibles(html: string, replace: (markdown: string) => string): string {
+  const tagRegex = /<(\/?)details\b[^>]*>/gi;
+  let output = '';
+  let depth = 0;
+  let blockStart = 0;
+  let lastIndex = 0;
+  let tag;
+
+  while ((tag = tagRegex.exec(html)) !== null) {
+    if (!tag[1]) {
+      if (depth === 0) {
+        blockStart = tag.index;
+      }
+      depth++;
+    } else if (depth > 0 && --depth === 0) {
+      const blockEnd = tag.index + tag[0].length;
+      const markdown = convertCollapsible(html.slice(blockStart, blockEnd));
+      output += html.slice(lastIndex, blockStart) + (markdown === null ? html.slice(blockStart, blockEnd) : replace(markdown));
+      lastIndex = blockEnd;
+    }
+  }
+
+  return output + html.slice(lastIndex);
+}
+
+/**
+ * Convert a <details> block to a :::collapsible container (null if it isn't in Intercom's format)
+ */
+function convertCollapsible(block: string): string | null {
+  const match = block.match(
+    /^<details\b[^>]*>\s*<summary\b[^>]*>([\s\S]*?)<\/summary>\s*<div\s+class="collapsible-section-content"[^>]*>([\s\S]*)<\/div>\s*<\/details>$/i
+  );
+  if (!match) {
+    return null;
+  }
+
+  const summary = htmlToMarkdown(match[1]).replace(/\s*\n\s*/g, ' ');
+  const content = htmlToMarkdown(match[2]);
+  return [':::collapsible', summary, '', ...(content ? [content, ''] : []), ':::'].join('\n');
+}
+
+/**
+ * Placeholder of a collapsible section set aside during conversion
+ * Delimited by NUL characters, which never appear in article text, so it can't collide with it
+ */
+function collapsiblePlaceholder(index: number): string {
+  return `\u0000collapsible-${index}\u0000`;
+}
+
+/**
+ * Convert video embeds of known providers to shorthands, keeping the embed parameters
+ */
+function convertVideos(html: string): string {
+  const videoRegex = /<div\s+class="intercom-h2b-video"[^>]*>\s*<iframe\s[^>]*?src="([^"]*)"[^>]*>\s*<\/iframe>\s*<\/div>/gi;
+
+  return html.replace(videoRegex, (match, src) => {
+    const video = parseVideoEmbedUrl(decodeHtmlEntities(src));
+    return video ? `\n\n${formatVideoShorthand(video)}\n\n` : match;
+  });
+}
+
+/**
+ * Convert button blocks to shorthands, keeping their alignment and target
+ * Buttons open in a new tab by default; other targets are written as " target=<target>"
+ * (" target=_self" for buttons without target). URL and text are written decoded.
+ */
+function convertButtons(html: string): string {
+  const buttonRegex = /<div\s+class="intercom-container(?:\s+intercom-align-(center|right))?"[^>]*>\s*<a\s+([^>]*class="[^"]*intercom-h2b-button[^"]*"[^>]*)>([\s\S]*?)<\/a>\s*<\/div>/gi;
+
+  return html.replace(buttonRegex, (match, align, attributes: string, text) => {
+    const href = attributes.match(/href="([^"]*)"/i)?.[1];
+    if (href === undefined) {
+      return match;
+    }
+
+    const target = attributes.match(/target="([^"]*)"/i)?.[1] || '_self';
+    const alignComment = align ? `<!-- align:${align} -->` : '';
+    const targetOption = target === '_blank' ? '' : ` target=${target}`;
+    const cleanText = decodeHtmlEntities(stripHtmlTags(convertInlineFormatting(text))).trim();
+    return `\n\n${alignComment}<!-- button:${decodeHtmlEntities(href)}${targetOption} -->${cleanText}<!-- /button -->\n\n`;
+  });
+}
+
 /**
  * Convert HTML tables to Markdown tables
  */
@@ -330,7 +485,7 @@ function stripHtmlTags(html: string): string {
 /**
  * Decode HTML entities
  */
-function decodeHtmlEntities(html: string): string {
+export function decodeHtmlEntities(html: string): string {
   const entities: Record<string, string> = {
     '&amp;': '&',
     '&lt;': '<',
@@ -0,0 +1,302 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import axios from 'axios';
+import { ImageUploaderConfig, LocalUploaderConfig, S3UploaderConfig, SyncManifest } from '../types';
+import { ensureDir, exists } from './file-manager';
+import { ConfigError, LocalParseError, UploadError, errorMessage } from '../errors';
+
+/**
+ * An image to upload, named by its content hash so unchanged images keep their URL
+ */
+export interface UploadImage {
+  data: Buffer;
+  /** Object key / file name, e.g. "1a2b3c4d5e6f7a8b-screenshot.png" */
+  key: string;
+  contentType: string;
+}
+
+/**
+ * Hosts local images referenced by articles, returning their public URL
+ */
+export interface ImageUploader {
+  upload(image: UploadImage): Promise<string>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+// Markdown images, with the target captured as written
+const IMAGE_REGEX = /(!\[[^\]]*\]\()([^)]+)\)/g;
+
+/**
+ * Copies images into a directory served by a static server
+ */
+export class LocalDirectoryUploader implements ImageUploader {
+  private config: LocalUploaderConfig;
+
+  constructor(config: LocalUploaderConfig) {
+    this.config = config;
+  }
+
+  async upload(image: UploadImage): Promise<string> {
+    const filePath = path.join(this.config.dir, image.key);
+    if (!(await exists(filePath))) {
+      await ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, image.data);
+    }
+    return `${this.config.baseUrl.replace(/\/$/, '')}/${image.key}`;
+  }
+}
+
+/**
+ * Uploads images to an S3-compatible bucket (AWS S3, MinIO, R2, ...) with Signature Version 4
+ * With an endpoint, objects are addressed path-style ({endpoint}/{bucket}/{key})
+ */
+export class S3Uploader implements ImageUploader {
+  private config: S3UploaderConfig;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+
+  constructor(config: S3UploaderConfig) {
+    this.config = config;
+    this.accessKeyId = resolveEnv(config.accessKeyId || 'env:AWS_ACCESS_KEY_ID');
+    this.secretAccessKey = resolveEnv(config.secretAccessKey || 'env:AWS_SECRET_ACCESS_KEY');
+  }
+
+  async upload(image: UploadImage): Promise<string> {
+    const key = `${this.config.prefix || ''}${image.key}`;
+    const url = this.getObjectUrl(key);
+
+    try {
+      await axios.put(url, image.data, {
+        headers: {
+          ...signS3Request('PUT', new URL(url), image.data, {
+            region: this.config.region || 'us-east-1',
+            accessKeyId: this.accessKeyId,
+            secretAccessKey: this.secretAccessKey,
+          }),
+          'Content-Type': image.contentType,
+        },
+        maxBodyLength: Infinity,
+        timeout: 60000,
+      });
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new UploadError(`Failed to upload ${image.key} to ${url}: ${errorMessage(error)}`, status);
+    }
+
+    return this.config.publicUrl ? `${this.config.publicUrl.replace(/\/$/, '')}/${key}` : url;
+  }
+
+  private getObjectUrl(key: string): string {
+    const encodedKey = key.split('/').map(encodeUriSegment).join('/');
+    if (this.config.endpoint) {
+      return `${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}/${encodedKey}`;
+    }
+    return `https://${this.config.bucket}.s3.${this.config.region || 'us-east-1'}.amazonaws.com/${encodedKey}`;
+  }
+}
+
+/**
+ * Create the uploader of an imageUploader config
+ */
+export function createImageUploader(config: ImageUploaderConfig): ImageUploader {
+  switch (config.type) {
+    case 'local':
+      if (!config.dir || !config.baseUrl) {
+        throw new ConfigError('imageUploader of type "local" needs a dir and a baseUrl');
+      }
+      return new LocalDirectoryUploader(config);
+    case 's3':
+      if (!config.bucket) {
+        throw new ConfigError('imageUploader of type "s3" needs a bucket');
+      }
+      return new S3Uploader(config);
+    default:
+      throw new ConfigError(
+        `Unknown imageUploader type: ${(config as { type?: string }).type} (expected local or s3)`
+      );
+  }
+}
+
+/**
+ * Upload the local images of an article and replace their paths with the hosted URLs
+ * Images are recorded in manifest.uploads by content hash, so unchanged images are never uploaded again
+ * @param filePath - The article file, which image paths are relative to
+ */
+export async function uploadLocalImages(
+  markdown: string,
+  filePath: string,
+  manifest: SyncManifest,
+  uploader: ImageUploader | undefined
+): Promise<string> {
+  const urls = new Map<string, string>();
+
+  for (const target of findLocalImages(markdown)) {
+    const imagePath = resolveImagePath(target, filePath);
+    const data = await readImage(imagePath, target, filePath);
+    const hash = contentHashOf(data);
+
+    let url = manifest.uploads?.[hash];
+    if (!url) {
+      if (!uploader) {
+        throw new ConfigError(`Local image ${target} can't be pushed without "imageUploader" in the config`, {
+          file: filePath,
+        });
+      }
+      url = await uploader.upload({
+        data,
+        key: `${hash.slice(0, 16)}-${sanitizeFileName(path.basename(imagePath))}`,
+        contentType: CONTENT_TYPES[path.extname(imagePath).toLowerCase()] || 'application/octet-stream',
+      });
+      manifest.uploads = { ...manifest.uploads, [hash]: url };
+    }
+    urls.set(target, url);
+  }
+
+  return replaceImages(markdown, urls);
+}
+
+/**
+ * Replace the paths of local images uploaded before with their hosted URLs (nothing is uploaded)
+ */
+export async function resolveUploadedImages(
+  markdown: string,
+  filePath: string,
+  manifest: SyncManifest
+): Promise<string> {
+  const urls = new Map<string, string>();
+
+  for (const target of findLocalImages(markdown)) {
+    const imagePath = resolveImagePath(target, filePath);
+    if (!(await exists(imagePath))) {
+      continue;
+    }
+    const url = manifest.uploads?.[contentHashOf(await fs.readFile(imagePath))];
+    if (url) {
+      urls.set(target, url);
+    }
+  }
+
+  return replaceImages(markdown, urls);
+}
+
+/**
+ * Get the targets of images pointing at local files (relative paths, not URLs)
+ */
+export function findLocalImages(markdown: string): string[] {
+  const targets = Array.from(markdown.matchAll(IMAGE_REGEX), match => match[2].trim());
+  return Array.from(new Set(targets.filter(isLocalImage)));
+}
+
+function isLocalImage(target: string): boolean {
+  return !/^[a-z][a-z0-9+.-]*:/i.test(target) && !target.startsWith('/') && !target.startsWith('#');
+}
+
+function resolveImagePath(target: string, filePath: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURI(target);
+  } catch {
+    throw new LocalParseError(`Invalid image path ${target} (escape "%" as "%25")`, { file: filePath });
+  }
+  return path.resolve(path.dirname(filePath), decoded);
+}
+
+async function readImage(imagePath: string, target: string, filePath: string): Promise<Buffer> {
+  try {
+    return await fs.readFile(imagePath);
+  } catch (error) {
+    throw new LocalParseError(`Cannot read image ${target}: ${errorMessage(error)}`, { file: filePath });
+  }
+}
+
+function replaceImages(markdown: string, urls: Map<string, string>): string {
+  return markdown.replace(IMAGE_REGEX, (match, prefix, target) => {
+    const url = urls.get(target.trim());
+    return url ? `${prefix}${url})` : match;
+  });
+}
+
+function contentHashOf(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]/g, '-') || 'image';
+}
+
+function resolveEnv(value: string): string {
+  if (!value.startsWith('env:')) {
+    return value;
+  }
+  const envVar = value.slice(4);
+  const resolved = process.env[envVar];
+  if (!resolved) {
+    throw new ConfigError(`Environment variable ${envVar} is not set (needed by imageUploader)`);
+  }
+  return resolved;
+}
+
+/**
+ * Get the headers signing an S3 request with AWS Signature Version 4
+ * Only host, x-amz-content-sha256 and x-amz-date are signed
+ */
+export function signS3Request(
+  method: string,
+  url: URL,
+  body: Buffer,
+  credentials: { region: string; accessKeyId: string; secretAccessKey: string },
+  now = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const date = amzDate.slice(0, 8);
+  const payloadHash = contentHashOf(body);
+  const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    url.searchParams.toString(),
+    `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  let signingKey: Buffer = hmac(`AWS4${credentials.secretAccessKey}`, date);
+  for (const part of [credentials.region, 's3', 'aws4_request']) {
+    signingKey = hmac(signingKey, part);
+  }
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    Authorization:
+      `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function encodeUriSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
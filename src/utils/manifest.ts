@@ -0,0 +1,148 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ArticleAttachment, ManifestEntry, SyncManifest } from '../types';
+import { exists } from './file-manager';
+import { contentHash } from './markdown';
+import { LocalParseError, errorMessage } from '../errors';
+
+/**
+ * Manifest file (inside articlesDir), meant to be committed with the articles
+ */
+export const MANIFEST_FILE = '.intercom-sync.json';
+
+/**
+ * Load the sync manifest, or an empty one if it doesn't exist yet
+ */
+export async function loadManifest(articlesDir: string): Promise<SyncManifest> {
+  const manifestPath = path.join(articlesDir, MANIFEST_FILE);
+  if (!(await exists(manifestPath))) {
+    return { version: 1, articles: {} };
+  }
+
+  const content = await fs.readFile(manifestPath, 'utf-8');
+  let manifest: SyncManifest;
+  try {
+    manifest = JSON.parse(content) as SyncManifest;
+  } catch (error) {
+    throw new LocalParseError(`Invalid manifest ${manifestPath}: ${errorMessage(error)}`, { file: manifestPath });
+  }
+  return {
+    version: 1,
+    last_pull_at: manifest.last_pull_at,
+    articles: manifest.articles || {},
+    assets: manifest.assets,
+    uploads: manifest.uploads,
+  };
+}
+
+/**
+ * Save the sync manifest with sorted keys (stable diffs in git)
+ */
+export async function saveManifest(articlesDir: string, manifest: SyncManifest): Promise<void> {
+  const articles: SyncManifest['articles'] = {};
+  for (const id of Object.keys(manifest.articles).sort()) {
+    const locales = manifest.articles[id];
+    if (Object.keys(locales).length === 0) {
+      continue;
+    }
+    articles[id] = {};
+    for (const locale of Object.keys(locales).sort()) {
+      articles[id][locale] = locales[locale];
+    }
+  }
+
+  const assets = sortKeys(manifest.assets);
+  const uploads = sortKeys(manifest.uploads);
+
+  await fs.mkdir(articlesDir, { recursive: true });
+  await fs.writeFile(
+    path.join(articlesDir, MANIFEST_FILE),
+    JSON.stringify({ version: 1, last_pull_at: manifest.last_pull_at, articles, assets, uploads }, null, 2) + '\n',
+    'utf-8'
+  );
+}
+
+/**
+ * Get the absolute file path recorded for an article locale
+ */
+export function getManifestPath(
+  manifest: SyncManifest,
+  articlesDir: string,
+  intercomId: string,
+  locale: string
+): string | null {
+  const entry = manifest.articles[intercomId]?.[locale];
+  return entry ? path.join(articlesDir, entry.path) : null;
+}
+
+/**
+ * Get the article locale recorded at a file path, as "<intercom_id>:<locale>" (null if none)
+ */
+export function getManifestPathOwner(manifest: SyncManifest, articlesDir: string, filePath: string): string | null {
+  const relativePath = path.relative(articlesDir, filePath).split(path.sep).join('/');
+  for (const [intercomId, locales] of Object.entries(manifest.articles)) {
+    for (const [locale, entry] of Object.entries(locales)) {
+      if (entry.path === relativePath) {
+        return `${intercomId}:${locale}`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Record an article locale (path is converted to a relative, forward-slash path)
+ */
+export function setManifestEntry(
+  manifest: SyncManifest,
+  articlesDir: string,
+  intercomId: string,
+  locale: string,
+  filePath: string,
+  entry: Omit<ManifestEntry, 'path'>
+): void {
+  const relativePath = path.relative(articlesDir, filePath).split(path.sep).join('/');
+  manifest.articles[intercomId] = manifest.articles[intercomId] || {};
+  manifest.articles[intercomId][locale] = { path: relativePath, ...entry };
+}
+
+/**
+ * Remove an article (all locales, or a single locale) from the manifest
+ */
+export function removeManifestEntry(manifest: SyncManifest, intercomId: string, locale?: string): void {
+  if (!locale) {
+    delete manifest.articles[intercomId];
+    return;
+  }
+  if (manifest.articles[intercomId]) {
+    delete manifest.articles[intercomId][locale];
+  }
+}
+
+/**
+ * Check whether the remote HTML of an article locale changed since its manifest entry was recorded
+ * Compares remote_hash, then updated_at (the remote updated_at, in seconds); entries without either count as unchanged
+ */
+export function isRemoteChangedSince(entry: ManifestEntry, html: string, updatedAt: number): boolean {
+  if (entry.remote_hash) {
+    return contentHash(html) !== entry.remote_hash;
+  }
+  return !!entry.updated_at && updatedAt * 1000 > new Date(entry.updated_at).getTime();
+}
+
+/**
+ * Hash of a local markdown body (whitespace at the edges is ignored) and its front-matter attachments
+ * (without attachments, the hash is the body's alone)
+ */
+export function markdownHash(markdown: string, attachments?: ArticleAttachment[]): string {
+  const hash = crypto.createHash('sha256').update(markdown.trim());
+  if (attachments && attachments.length > 0) {
+    hash.update(JSON.stringify(attachments.map(attachment => [attachment.name, attachment.url])));
+  }
+  return hash.digest('hex');
+}
+
+function sortKeys(record: Record<string, string> | undefined): Record<string, string> | undefined {
+  return record ? Object.fromEntries(Object.keys(record).sort().map(key => [key, record[key]])) : undefined;
+}
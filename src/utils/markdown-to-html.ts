@@ -3,7 +3,9 @@
  * Based on docs/design/html-markdown-conversion.md
  */
 
-import { restoreImageSignatures } from './markdown';
+import { ATTACHMENTS_MARKER, restoreImageSignatures } from './markdown';
+import { VIDEO_PROVIDER_NAMES, getVideoEmbedUrl } from './video-embeds';
+import { ArticleAttachment } from '../types';
 
 // Callout color mapping (color name -> background + border colors)
 const CALLOUT_STYLES: Record<string, { bg: string; border: string }> = {
@@ -18,50 +20,86 @@ const CALLOUT_STYLES: Record<string, { bg: string; border: string }> = {
  * Convert Markdown to Intercom HTML
  * @param markdown - The markdown content
  * @param originalHtml - Optional original HTML to restore image signatures from
+ * @param attachments - Optional attachments from front matter, written as an attachment list where the
+ * attachments marker is (appended when there's none)
  */
-export function markdownToHtml(markdown: string, originalHtml?: string): string {
+export function markdownToHtml(
+  markdown: string,
+  originalHtml?: string,
+  attachments?: ArticleAttachment[]
+): string {
   let result = markdown;
 
   // Process block-level elements first, then inline elements
 
-  // 1. Handle callouts (```callout-color)
+  // 0. Set aside the attachments marker (outside code blocks), so it isn't wrapped in a paragraph
+  result = replaceAttachmentsMarker(result);
+
+  // 1. Handle collapsible sections (:::collapsible) - converted on their own (recursively),
+  // then set aside so their HTML isn't processed again by the steps below
+  const collapsibles: string[] = [];
+  result = replaceCollapsibleBlocks(result, html => {
+    collapsibles.push(html);
+    return `\n${collapsiblePlaceholder(collapsibles.length - 1)}\n`;
+  });
+
+  // 2. Handle callouts (```callout-color)
   result = convertCalloutBlocks(result);
 
-  // 2. Handle code blocks (```)
+  // 3. Handle code blocks (```)
   result = convertCodeBlocksToHtml(result);
 
-  // 3. Handle headings with alignment
+  // 4. Handle video shorthands (<!-- video:provider:id -->)
+  result = convertVideosToHtml(result);
+
+  // 5. Handle button shorthands (<!-- button:url -->text<!-- /button -->)
+  result = convertButtonsToHtml(result);
+
+  // 6. Handle headings with alignment
   result = convertHeadingsToHtml(result);
 
-  // 4. Handle images with alignment
+  // 7. Handle images with alignment
   result = convertImagesToHtml(result);
 
-  // 5. Handle tables
+  // 8. Handle tables
   result = convertTablesToHtml(result);
 
-  // 6. Handle horizontal rules
+  // 9. Handle horizontal rules
   result = result.replace(/^---$/gm, '<hr>');
 
-  // 7. Handle lists
+  // 10. Handle lists
   result = convertListsToHtml(result);
 
-  // 8. Handle paragraphs BEFORE inline formatting
+  // 11. Handle paragraphs BEFORE inline formatting
   // so that plain text lines get wrapped in <p> tags first
   result = convertParagraphsToHtml(result);
 
-  // 9. Handle links (do before inline formatting to preserve link structure)
+  // 12. Handle links (do before inline formatting to preserve link structure)
   result = convertLinksToHtml(result);
 
-  // 10. Handle inline formatting
+  // 13. Handle inline formatting
   result = convertInlineFormattingToHtml(result);
 
-  // 11. Handle line breaks
+  // 14. Handle line breaks
   result = result.replace(/  \n/g, '<br>');
 
-  // 12. Clean up
+  // 15. Clean up
   result = cleanupHtml(result);
 
-  // 13. Restore image signatures if original HTML provided
+  // 16. Put back collapsible sections
+  collapsibles.forEach((html, index) => {
+    result = result.replace(collapsiblePlaceholder(index), () => html);
+  });
+
+  // 17. Put the attachments where the marker was, or append them
+  const attachmentsHtml = attachments && attachments.length > 0 ? convertAttachmentsToHtml(attachments) : '';
+  if (result.includes(ATTACHMENTS_PLACEHOLDER)) {
+    result = result.replace(ATTACHMENTS_PLACEHOLDER, () => attachmentsHtml).split(ATTACHMENTS_PLACEHOLDER).join('');
+  } else {
+    result += attachmentsHtml;
+  }
+
+  // 18. Restore image and attachment signatures if original HTML provided
   if (originalHtml) {
     result = restoreImageSignatures(result, originalHtml);
   }
@@ -69,6 +107,106 @@ export function markdownToHtml(markdown: string, originalHtml?: string): string
   return result;
 }
 
+/**
+ * Replace each outermost :::collapsible container with the result of a callback, given its HTML
+ * The first line of a container is the summary (usually a heading), the rest its content;
+ * containers nest, each closed by its own ":::" line (lines inside code blocks are ignored)
+ */
+function replaceCollapsibleBlocks(markdown: string, replace: (html: string) => string): string {
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+  let block: string[] = [];
+  let depth = 0;
+  let inFence = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('```')) {
+      inFence = !inFence;
+    }
+
+    if (!inFence && trimmed === ':::collapsible') {
+      depth++;
+      if (depth === 1) {
+        continue;
+      }
+    } else if (!inFence && trimmed === ':::' && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        output.push(replace(convertCollapsibleToHtml(block)));
+        block = [];
+        continue;
+      }
+    }
+
+    (depth > 0 ? block : output).push(line);
+  }
+
+  if (depth > 0) {
+    throw new Error('Unclosed :::collapsible section (close it with a ":::" line)');
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Convert the lines inside a :::collapsible container to Intercom's collapsible section
+ */
+function convertCollapsibleToHtml(lines: string[]): string {
+  const summaryIndex = lines.findIndex(line => line.trim());
+  if (summaryIndex === -1) {
+    throw new Error('Empty :::collapsible section (expected a title line)');
+  }
+
+  // A plain-text summary is kept as is, not as a paragraph
+  const summary = markdownToHtml(lines[summaryIndex].trim()).replace(/^<p class="no-margin">([\s\S]*)<\/p>$/, '$1');
+  const content = markdownToHtml(lines.slice(summaryIndex + 1).join('\n'));
+  return `<details><summary>${summary}</summary><div class="collapsible-section-content">${content}</div></details>`;
+}
+
+/**
+ * Placeholder of the attachments marker, delimited like collapsible placeholders
+ */
+const ATTACHMENTS_PLACEHOLDER = '<\u0000attachments\u0000>';
+
+/**
+ * Replace attachments marker lines outside code blocks with the placeholder
+ */
+function replaceAttachmentsMarker(markdown: string): string {
+  let inFence = false;
+  return markdown.split('\n').map(line => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('```')) {
+      inFence = !inFence;
+    }
+    return !inFence && trimmed === ATTACHMENTS_MARKER ? ATTACHMENTS_PLACEHOLDER : line;
+  }).join('\n');
+}
+
+/**
+ * Placeholder of a collapsible section set aside during conversion
+ * A tag-like line (left alone by the paragraph step) delimited by NUL characters, which never
+ * appear in article text, so it can't collide with it
+ */
+function collapsiblePlaceholder(index: number): string {
+  return `<\u0000collapsible-${index}\u0000>`;
+}
+
+/**
+ * Convert front-matter attachments to an Intercom attachment list
+ */
+function convertAttachmentsToHtml(attachments: ArticleAttachment[]): string {
+  const links = attachments.map(attachment => {
+    if (!attachment || typeof attachment.name !== 'string' || typeof attachment.url !== 'string') {
+      throw new Error(`Invalid attachment ${JSON.stringify(attachment)}: expected name and url`);
+    }
+    const href = attachment.url.replace(/"/g, '%22');
+    return `<a class="intercom-interblocks-attachment" href="${href}" target="_blank" rel="nofollow noopener noreferrer">${encodeHtmlEntities(attachment.name)}</a>`;
+  });
+
+  return `<div class="intercom-interblocks-attachment-list">${links.join('')}</div>`;
+}
+
 /**
  * Convert callout code blocks to HTML divs
  */
@@ -101,6 +239,37 @@ function convertCodeBlocksToHtml(markdown: string): string {
   });
 }
 
+/**
+ * Convert video shorthands to Intercom video embeds
+ */
+function convertVideosToHtml(markdown: string): string {
+  const videoRegex = /^<!-- video:([\w-]+):([\w-]+)(\?\S*)? -->$/gm;
+
+  return markdown.replace(videoRegex, (match, provider, id, query) => {
+    if (!VIDEO_PROVIDER_NAMES.includes(provider)) {
+      throw new Error(`Unknown video provider in ${match} (supported: ${VIDEO_PROVIDER_NAMES.join(', ')})`);
+    }
+    const src = encodeHtmlEntities(getVideoEmbedUrl({ provider, id, query: query || '' }));
+    return `<div class="intercom-h2b-video"><iframe src="${src}" frameborder="0" allowfullscreen></iframe></div>`;
+  });
+}
+
+/**
+ * Convert button shorthands to Intercom button blocks
+ * Buttons open in a new tab unless the shorthand has a target (target=_self: no target attribute).
+ * URL and text are HTML-encoded.
+ */
+function convertButtonsToHtml(markdown: string): string {
+  const buttonRegex = /^(?:<!-- align:(center|right) -->)?<!-- button:(\S+?)(?: target=(\S+))? -->(.*?)<!-- \/button -->$/gm;
+
+  return markdown.replace(buttonRegex, (match, align, href, target, text) => {
+    const alignClass = align ? ` intercom-align-${align}` : '';
+    const targetAttr = target === '_self' ? '' : ` target="${target || '_blank'}"`;
+    const link = `<a class="intercom-h2b-button"${targetAttr} href="${encodeHtmlEntities(href)}">${encodeHtmlText(text.trim())}</a>`;
+    return `<div class="intercom-container${alignClass}">${link}</div>`;
+  });
+}
+
 /**
  * Convert headings to HTML
  */
@@ -295,6 +464,16 @@ function encodeHtmlEntities(text: string): string {
     .replace(/"/g, '&quot;');
 }
 
+/**
+ * Encode the HTML entities of text content (quotes only need encoding in attributes)
+ */
+function encodeHtmlText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
 /**
  * Clean up HTML output
  */
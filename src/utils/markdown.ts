@@ -1,14 +1,45 @@
+import * as crypto from 'crypto';
 import matter from 'gray-matter';
-import { ArticleFrontMatter } from '../types';
+import { ArticleAttachment, ArticleFrontMatter } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const yaml = require('js-yaml');
+
+/**
+ * Front-matter keys owned by Intercom: pull overwrites them, and removes them when unset
+ */
+export const REMOTE_FRONT_MATTER_KEYS = [
+  'intercom_id',
+  'intercom_collection_id',
+  'locale',
+  'translations',
+  'updated_at',
+  'status',
+  'title',
+  'description',
+  'author_id',
+  'attachments',
+  'orphaned',
+];
+
+/**
+ * Marks where the attachment list goes in the body, when content follows it (it's appended otherwise)
+ */
+export const ATTACHMENTS_MARKER = '<!-- attachments -->';
 
 /**
  * Parse markdown file with front matter
+ * Dates are kept as written (the core schema doesn't parse timestamps), so custom keys round-trip unchanged
  */
 export function parseMarkdown(content: string): {
   frontMatter: ArticleFrontMatter;
   content: string;
 } {
-  const parsed = matter(content);
+  const parsed = matter(content, {
+    engines: {
+      yaml: (input: string) => yaml.load(input, { schema: yaml.CORE_SCHEMA }) as object,
+    },
+  });
   return {
     frontMatter: parsed.data as ArticleFrontMatter,
     content: parsed.content,
@@ -22,8 +53,6 @@ export function stringifyMarkdown(
   frontMatter: ArticleFrontMatter,
   content: string
 ): string {
-  // eslint-disable-next-line @typescript-eslint/no-require-imports
-  const yaml = require('js-yaml');
   const result = matter.stringify(content, frontMatter, {
     engines: {
       yaml: {
@@ -42,6 +71,32 @@ export function stringifyMarkdown(
   return result.replace(/^(---\n[\s\S]*?\n---)\n*/, '$1\n\n');
 }
 
+/**
+ * Merge the remote-owned fields of a pulled article into existing front matter
+ * Other keys (e.g. owner, tags) keep their values and order; new remote fields are appended
+ */
+export function mergeFrontMatter(
+  existing: ArticleFrontMatter,
+  remote: ArticleFrontMatter
+): ArticleFrontMatter {
+  const merged: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(existing)) {
+    if (!REMOTE_FRONT_MATTER_KEYS.includes(key)) {
+      merged[key] = value;
+    } else if (remote[key] !== undefined) {
+      merged[key] = remote[key];
+    }
+  }
+  for (const [key, value] of Object.entries(remote)) {
+    if (!(key in merged) && value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  return merged as ArticleFrontMatter;
+}
+
 /**
  * Extract title from markdown content (first h1)
  */
@@ -52,19 +107,25 @@ export function extractTitle(content: string): string | null {
 
 /**
  * Generate file path from article metadata
+ * collectionPath may be nested for sub-collections, e.g. "getting-started/setup"
  */
 export function generateFilePath(
   locale: string,
-  collectionId: string,
+  collectionPath: string,
   slug: string
 ): string {
-  const sanitizedSlug = slug
+  return `${locale}/${collectionPath}/${sanitizeSlug(slug)}.md`;
+}
+
+/**
+ * Make a slug safe for use as a file name (keeps case and non-ASCII characters)
+ */
+export function sanitizeSlug(slug: string): string {
+  return slug
     .replace(/[\/\\:*?"<>|]/g, '-')  // ファイル名に使えない文字のみ置換
     .replace(/\s+/g, '-')             // スペースをハイフンに
     .replace(/-+/g, '-')              // 連続ハイフンを1つに
     .replace(/^-|-$/g, '');           // 先頭末尾のハイフンを除去
-
-  return `${locale}/${collectionId}/${sanitizedSlug}.md`;
 }
 
 /**
@@ -144,3 +205,31 @@ export function restoreImageSignatures(html: string, originalHtml: string): stri
     }
   );
 }
+
+/**
+ * Normalize Intercom HTML for comparison
+ * Removes what changes without an edit: image signatures, auto-generated heading IDs, whitespace between tags
+ */
+export function normalizeHtml(html: string): string {
+  return stripImageSignatures(html || '')
+    .replace(/ id="h_[a-f0-9]+"/g, '')
+    .replace(/>\s+</g, '><')
+    .trim();
+}
+
+/**
+ * Hash of normalized HTML, used to detect whether an article actually changed
+ */
+export function contentHash(html: string): string {
+  return crypto.createHash('sha256').update(normalizeHtml(html)).digest('hex');
+}
+
+/**
+ * Check whether two attachment lists are the same (names and URLs, in order; missing counts as empty)
+ */
+export function isSameAttachments(a: ArticleAttachment[] | undefined, b: ArticleAttachment[] | undefined): boolean {
+  const left = a || [];
+  const right = b || [];
+  return left.length === right.length &&
+    left.every((attachment, index) => attachment.name === right[index].name && attachment.url === right[index].url);
+}
@@ -0,0 +1,161 @@
+/**
+ * Line-based three-way merge for markdown articles
+ * Used to combine local edits with changes made in the Intercom UI
+ */
+
+import { ArticleAttachment } from '../types';
+import { isSameAttachments } from './markdown';
+
+export interface MergeResult {
+  merged: string;
+  clean: boolean;
+  conflicts: number;
+}
+
+export const CONFLICT_MARKERS = {
+  local: '<<<<<<< local',
+  separator: '=======',
+  remote: '>>>>>>> remote',
+};
+
+/**
+ * Merge local and remote edits of the same base text
+ * Non-overlapping changes are combined; overlapping changes are wrapped in conflict markers
+ */
+export function threeWayMerge(base: string, local: string, remote: string): MergeResult {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+
+  const localMap = matchLines(baseLines, localLines);
+  const remoteMap = matchLines(baseLines, remoteLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (i < baseLines.length || j < localLines.length || k < remoteLines.length) {
+    // Stable line: unchanged on both sides
+    if (i < baseLines.length && localMap[i] === j && remoteMap[i] === k) {
+      output.push(baseLines[i]);
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    // Find the next base line that is kept on both sides
+    let next = i;
+    while (
+      next < baseLines.length &&
+      !(localMap[next] >= j && remoteMap[next] >= k)
+    ) {
+      next++;
+    }
+
+    const localEnd = next < baseLines.length ? localMap[next] : localLines.length;
+    const remoteEnd = next < baseLines.length ? remoteMap[next] : remoteLines.length;
+
+    const baseChunk = baseLines.slice(i, next);
+    const localChunk = localLines.slice(j, localEnd);
+    const remoteChunk = remoteLines.slice(k, remoteEnd);
+
+    if (sameLines(localChunk, baseChunk)) {
+      output.push(...remoteChunk);
+    } else if (sameLines(remoteChunk, baseChunk) || sameLines(localChunk, remoteChunk)) {
+      output.push(...localChunk);
+    } else {
+      conflicts++;
+      output.push(
+        CONFLICT_MARKERS.local,
+        ...localChunk,
+        CONFLICT_MARKERS.separator,
+        ...remoteChunk,
+        CONFLICT_MARKERS.remote
+      );
+    }
+
+    i = next;
+    j = localEnd;
+    k = remoteEnd;
+  }
+
+  return {
+    merged: output.join('\n'),
+    clean: conflicts === 0,
+    conflicts,
+  };
+}
+
+/**
+ * Merge local and remote changes to the attachments of an article (from front matter)
+ * The side that changed them wins; if both changed them differently, the merge isn't clean and remote is kept
+ */
+export function mergeAttachments(
+  base: ArticleAttachment[] | undefined,
+  local: ArticleAttachment[] | undefined,
+  remote: ArticleAttachment[] | undefined
+): { attachments: ArticleAttachment[]; clean: boolean } {
+  const localChanged = !isSameAttachments(local, base);
+  if (localChanged && isSameAttachments(remote, base)) {
+    return { attachments: local || [], clean: true };
+  }
+  return { attachments: remote || [], clean: !localChanged || isSameAttachments(local, remote) };
+}
+
+/**
+ * Check whether text contains unresolved conflict markers
+ */
+export function hasConflictMarkers(text: string): boolean {
+  const lines = splitLines(text);
+  return lines.includes(CONFLICT_MARKERS.local) && lines.includes(CONFLICT_MARKERS.remote);
+}
+
+/**
+ * Split text into lines, ignoring leading/trailing blank lines
+ */
+function splitLines(text: string): string[] {
+  const trimmed = text.replace(/\r\n/g, '\n').trim();
+  return trimmed ? trimmed.split('\n') : [];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Map each base line to its matching line in the other text (-1 if removed)
+ * Uses the longest common subsequence of lines
+ */
+function matchLines(base: string[], other: string[]): number[] {
+  const rows = base.length + 1;
+  const cols = other.length + 1;
+  const lengths: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      lengths[i][j] = base[i] === other[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const map = new Array<number>(base.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < other.length) {
+    if (base[i] === other[j]) {
+      map[i] = j;
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return map;
+}
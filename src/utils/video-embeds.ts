@@ -0,0 +1,70 @@
+/**
+ * Video embeds (<div class="intercom-h2b-video"><iframe src="...">) and their markdown shorthand,
+ * e.g. <!-- video:youtube:VIDEO_ID?rel=0 -->
+ */
+
+// Provider -> embed URL prefix (written on push) and the hosts accepted on pull
+const VIDEO_PROVIDERS: Record<string, { embedUrl: string; srcRegex: RegExp }> = {
+  youtube: {
+    embedUrl: 'https://www.youtube.com/embed/',
+    srcRegex: /^(?:https?:)?\/\/(?:www\.)?youtube\.com\/embed\/([\w-]+)(\?[^#\s]*)?$/i,
+  },
+  'youtube-nocookie': {
+    embedUrl: 'https://www.youtube-nocookie.com/embed/',
+    srcRegex: /^(?:https?:)?\/\/(?:www\.)?youtube-nocookie\.com\/embed\/([\w-]+)(\?[^#\s]*)?$/i,
+  },
+  vimeo: {
+    embedUrl: 'https://player.vimeo.com/video/',
+    srcRegex: /^(?:https?:)?\/\/player\.vimeo\.com\/video\/(\d+)(\?[^#\s]*)?$/i,
+  },
+  loom: {
+    embedUrl: 'https://www.loom.com/embed/',
+    srcRegex: /^(?:https?:)?\/\/(?:www\.)?loom\.com\/embed\/([\w-]+)(\?[^#\s]*)?$/i,
+  },
+  wistia: {
+    embedUrl: 'https://fast.wistia.net/embed/iframe/',
+    srcRegex: /^(?:https?:)?\/\/fast\.wistia\.(?:net|com)\/embed\/iframe\/(\w+)(\?[^#\s]*)?$/i,
+  },
+};
+
+export const VIDEO_PROVIDER_NAMES = Object.keys(VIDEO_PROVIDERS);
+
+/**
+ * A video embed: provider, video ID and the embed parameters (query string with "?", or "")
+ */
+export interface VideoEmbed {
+  provider: string;
+  id: string;
+  query: string;
+}
+
+/**
+ * Parse the (decoded) src of an embed iframe, or return null for unknown providers
+ */
+export function parseVideoEmbedUrl(src: string): VideoEmbed | null {
+  for (const [provider, { srcRegex }] of Object.entries(VIDEO_PROVIDERS)) {
+    const match = src.trim().match(srcRegex);
+    if (match) {
+      return { provider, id: match[1], query: match[2] && match[2] !== '?' ? match[2] : '' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the embed URL of a video (the iframe src, not HTML-encoded)
+ */
+export function getVideoEmbedUrl(video: VideoEmbed): string {
+  const provider = VIDEO_PROVIDERS[video.provider];
+  if (!provider) {
+    throw new Error(`Unknown video provider: ${video.provider} (supported: ${VIDEO_PROVIDER_NAMES.join(', ')})`);
+  }
+  return `${provider.embedUrl}${video.id}${video.query}`;
+}
+
+/**
+ * Format the markdown shorthand of a video
+ */
+export function formatVideoShorthand(video: VideoEmbed): string {
+  return `<!-- video:${video.provider}:${video.id}${video.query} -->`;
+}
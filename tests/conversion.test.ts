@@ -4,9 +4,12 @@
  * These tests verify that:
  * 1. HTML -> Markdown -> HTML roundtrip produces equivalent HTML
  * 2. Various HTML elements are correctly converted
+ * 3. Signed URLs and attachments survive the roundtrip
+ * 4. Video embeds and buttons convert to shorthands, keeping their parameters, alignment and target
+ * 5. Collapsible sections convert to (nested) :::collapsible containers with markdown content
  */
 
-import { htmlToMarkdown } from '../src/utils/html-to-markdown';
+import { htmlToMarkdown, extractAttachments } from '../src/utils/html-to-markdown';
 import { markdownToHtml } from '../src/utils/markdown-to-html';
 import { stripImageSignatures, restoreImageSignatures } from '../src/utils/markdown';
 
@@ -119,11 +122,46 @@ const testCases: { name: string; html: string }[] = [
     name: 'Text alignment right',
     html: '<p class="intercom-align-right no-margin">right aligned</p>',
   },
+  {
+    name: 'Video YouTube',
+    html: '<div class="intercom-h2b-video"><iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ?rel=0&amp;start=30" frameborder="0" allowfullscreen></iframe></div>',
+  },
+  {
+    name: 'Video Vimeo',
+    html: '<div class="intercom-h2b-video"><iframe src="https://player.vimeo.com/video/76979871?h=8272103f6e" frameborder="0" allowfullscreen></iframe></div>',
+  },
+  {
+    name: 'Video Loom',
+    html: '<div class="intercom-h2b-video"><iframe src="https://www.loom.com/embed/e5b8c04bca094dd8a5507925ab887002" frameborder="0" allowfullscreen></iframe></div>',
+  },
+  {
+    name: 'Video Wistia',
+    html: '<div class="intercom-h2b-video"><iframe src="https://fast.wistia.net/embed/iframe/abc123xyz?videoFoam=true" frameborder="0" allowfullscreen></iframe></div>',
+  },
+  {
+    name: 'Button',
+    html: '<div class="intercom-container"><a class="intercom-h2b-button" target="_blank" href="https://example.com">Button Text</a></div>',
+  },
+  {
+    name: 'Button centered',
+    html: '<div class="intercom-container intercom-align-center"><a class="intercom-h2b-button" target="_blank" href="https://example.com/signup?plan=pro&amp;ref=help">Sign up</a></div>',
+  },
+  {
+    name: 'Button same tab',
+    html: '<div class="intercom-container intercom-align-right"><a class="intercom-h2b-button" href="https://example.com/settings">Open <b>settings</b></a></div>',
+  },
+  {
+    name: 'Collapsible',
+    html: '<details><summary><h2>Section Title</h2></summary><div class="collapsible-section-content"><p class="no-margin">Content with <b>bold</b></p><ul><li><p class="no-margin">item</p></li></ul></div></details>',
+  },
+  {
+    name: 'Collapsible nested',
+    html: '<details><summary><h2>Outer</h2></summary><div class="collapsible-section-content"><p class="no-margin">outer text</p><details><summary><h3>Inner</h3></summary><div class="collapsible-section-content"><p class="no-margin"><a href="https://example.com" target="_blank" class="intercom-content-link">inner link</a></p></div></details></div></details><p class="no-margin">after</p>',
+  },
 ];
 
-// Combined document test (excluding raw HTML elements like videos, buttons, collapsible sections)
-// These elements are kept as raw HTML per design and have known roundtrip limitations
-const combinedDocumentHtml = `<h1 id="h_e324f0a1dd">H1</h1><h2 id="h_b3ae805d42">Heading 2</h2><h3 id="h_03290146c3">Heading 3</h3><h4 id="h_9624ce3e6b">Heading 4</h4><p class="no-margin">normal text</p><p class="no-margin"><b>bold</b></p><p class="no-margin"><i>italic</i></p><p class="no-margin"><b><i>bold_italic</i></b></p><p class="no-margin"><code>inline code</code></p><p class="no-margin"><a href="https://example.com/link" target="_blank" class="intercom-content-link">link text</a></p><p class="intercom-align-center no-margin">centered text</p><p class="intercom-align-right no-margin">right aligned</p><div class="intercom-container"><img src="https://example.com/image.png"></div><div class="intercom-interblocks-table-container"><table role="presentation"><tbody><tr><td><p class="no-margin">A1</p></td><td><p class="no-margin">B1</p></td></tr><tr><td><p class="no-margin">A2</p></td><td><p class="no-margin">B2</p></td></tr></tbody></table></div><hr><ul><li><p class="no-margin">list item 1</p></li><li><p class="no-margin">list item 2</p></li></ul><ol><li><p class="no-margin">step 1</p></li><li><p class="no-margin">step 2</p></li></ol><pre><code>code block</code></pre><div class="intercom-interblocks-callout" style="background-color: #e8e8e880; border-color: #73737633;"><p class="no-margin">gray callout</p></div><div class="intercom-interblocks-callout" style="background-color: #e3e7fa80; border-color: #334bfa33;"><p class="no-margin">blue callout</p></div>`;
+// Combined document test
+const combinedDocumentHtml = `<h1 id="h_e324f0a1dd">H1</h1><h2 id="h_b3ae805d42">Heading 2</h2><h3 id="h_03290146c3">Heading 3</h3><h4 id="h_9624ce3e6b">Heading 4</h4><p class="no-margin">normal text</p><p class="no-margin"><b>bold</b></p><p class="no-margin"><i>italic</i></p><p class="no-margin"><b><i>bold_italic</i></b></p><p class="no-margin"><code>inline code</code></p><p class="no-margin"><a href="https://example.com/link" target="_blank" class="intercom-content-link">link text</a></p><p class="intercom-align-center no-margin">centered text</p><p class="intercom-align-right no-margin">right aligned</p><div class="intercom-container"><img src="https://example.com/image.png"></div><div class="intercom-interblocks-table-container"><table role="presentation"><tbody><tr><td><p class="no-margin">A1</p></td><td><p class="no-margin">B1</p></td></tr><tr><td><p class="no-margin">A2</p></td><td><p class="no-margin">B2</p></td></tr></tbody></table></div><hr><ul><li><p class="no-margin">list item 1</p></li><li><p class="no-margin">list item 2</p></li></ul><ol><li><p class="no-margin">step 1</p></li><li><p class="no-margin">step 2</p></li></ol><pre><code>code block</code></pre><div class="intercom-interblocks-callout" style="background-color: #e8e8e880; border-color: #73737633;"><p class="no-margin">gray callout</p></div><div class="intercom-interblocks-callout" style="background-color: #e3e7fa80; border-color: #334bfa33;"><p class="no-margin">blue callout</p></div><div class="intercom-h2b-video"><iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ?rel=0" frameborder="0" allowfullscreen></iframe></div><p class="no-margin">after video</p><div class="intercom-container intercom-align-center"><a class="intercom-h2b-button" target="_blank" href="https://example.com">Button Text</a></div><details><summary><h2 id="h_5f1c2e9a0b">FAQ</h2></summary><div class="collapsible-section-content"><p class="no-margin">answer</p></div></details>`;
 
 /**
  * Test image signature stripping and restoration
@@ -175,6 +213,217 @@ function testImageSignatures(): { pass: boolean; message: string }[] {
   return results;
 }
 
+/**
+ * Test attachment extraction to front matter and re-emission on push
+ */
+function testAttachments(): { pass: boolean; message: string }[] {
+  const results: { pass: boolean; message: string }[] = [];
+
+  const signedUrl = 'https://intercom-attachments-1.com/path/to/guide.pdf?expires=123&signature=abc&req=xyz';
+  const html = '<p class="no-margin">Read the guide</p>' +
+    '<div class="intercom-interblocks-attachment-list">' +
+    `<a class="intercom-interblocks-attachment" href="${signedUrl}" target="_blank" rel="nofollow noopener noreferrer">Guide &amp; FAQ.pdf</a>` +
+    '</div>';
+
+  // Test 1: Attachments are extracted without signatures
+  const attachments = extractAttachments(html);
+  const expectedAttachments = JSON.stringify([{ name: 'Guide & FAQ.pdf', url: 'https://intercom-attachments-1.com/path/to/guide.pdf' }]);
+  if (JSON.stringify(attachments) === expectedAttachments) {
+    results.push({ pass: true, message: '✓ Extract attachments' });
+  } else {
+    results.push({
+      pass: false,
+      message: `✗ Extract attachments\n  Expected: ${expectedAttachments}\n  Got: ${JSON.stringify(attachments)}`,
+    });
+  }
+
+  // Test 2: Attachment lists are left out of the markdown
+  const markdown = htmlToMarkdown(html);
+  if (markdown === 'Read the guide') {
+    results.push({ pass: true, message: '✓ Attachments removed from markdown' });
+  } else {
+    results.push({ pass: false, message: `✗ Attachments removed from markdown\n  Got: ${markdown}` });
+  }
+
+  // Test 3: Push re-emits the attachment list with its signed URL
+  const htmlBack = markdownToHtml(markdown, html, attachments);
+  if (htmlBack === html) {
+    results.push({ pass: true, message: '✓ Attachments roundtrip' });
+  } else {
+    results.push({ pass: false, message: `✗ Attachments roundtrip\n  Expected: ${html}\n  Got: ${htmlBack}` });
+  }
+
+  // Test 4: A list in the middle of the body keeps its position through a marker
+  const midHtml = '<p class="no-margin">Before</p>' +
+    '<div class="intercom-interblocks-attachment-list">' +
+    `<a class="intercom-interblocks-attachment" href="${signedUrl}" target="_blank" rel="nofollow noopener noreferrer">Guide &amp; FAQ.pdf</a>` +
+    '</div><p class="no-margin">After</p>';
+  const midMarkdown = htmlToMarkdown(midHtml);
+  const midHtmlBack = markdownToHtml(midMarkdown, midHtml, extractAttachments(midHtml));
+  if (midMarkdown === 'Before\n\n<!-- attachments -->\n\nAfter' && midHtmlBack === midHtml) {
+    results.push({ pass: true, message: '✓ Attachments keep their position' });
+  } else {
+    results.push({
+      pass: false,
+      message: `✗ Attachments keep their position\n  Markdown: ${midMarkdown}\n  Expected: ${midHtml}\n  Got: ${midHtmlBack}`,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Test video embed shorthands
+ */
+function testVideoEmbeds(): { pass: boolean; message: string }[] {
+  const results: { pass: boolean; message: string }[] = [];
+
+  // Test 1: Embeds become shorthands with their parameters, on their own line
+  const html = '<p class="no-margin">Watch this</p>' +
+    '<div class="intercom-h2b-video"><iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ?rel=0&amp;start=30" frameborder="0" allowfullscreen></iframe></div>';
+  const markdown = htmlToMarkdown(html);
+  const expectedMarkdown = 'Watch this\n\n<!-- video:youtube:dQw4w9WgXcQ?rel=0&start=30 -->';
+  if (markdown === expectedMarkdown) {
+    results.push({ pass: true, message: '✓ Video embed to shorthand' });
+  } else {
+    results.push({ pass: false, message: `✗ Video embed to shorthand\n  Expected: ${expectedMarkdown}\n  Got: ${markdown}` });
+  }
+
+  // Test 2: Shorthands written by hand are not wrapped in paragraphs
+  const written = markdownToHtml('Intro\n\n<!-- video:vimeo:76979871 -->\n\nOutro');
+  const expectedHtml = '<p class="no-margin">Intro</p>' +
+    '<div class="intercom-h2b-video"><iframe src="https://player.vimeo.com/video/76979871" frameborder="0" allowfullscreen></iframe></div>' +
+    '<p class="no-margin">Outro</p>';
+  if (written === expectedHtml) {
+    results.push({ pass: true, message: '✓ Video shorthand to embed' });
+  } else {
+    results.push({ pass: false, message: `✗ Video shorthand to embed\n  Expected: ${expectedHtml}\n  Got: ${written}` });
+  }
+
+  // Test 3: Embeds from other providers are kept as raw HTML
+  const other = '<div class="intercom-h2b-video"><iframe src="https://example.com/player/1" frameborder="0" allowfullscreen></iframe></div>';
+  const otherBack = markdownToHtml(htmlToMarkdown(other));
+  if (otherBack === other) {
+    results.push({ pass: true, message: '✓ Unknown video provider kept as raw HTML' });
+  } else {
+    results.push({ pass: false, message: `✗ Unknown video provider kept as raw HTML\n  Got: ${otherBack}` });
+  }
+
+  // Test 4: Shorthands with an unknown provider are rejected
+  try {
+    markdownToHtml('<!-- video:dailymotion:x7tgad0 -->');
+    results.push({ pass: false, message: '✗ Unknown video provider in shorthand rejected\n  No error thrown' });
+  } catch {
+    results.push({ pass: true, message: '✓ Unknown video provider in shorthand rejected' });
+  }
+
+  return results;
+}
+
+/**
+ * Test button shorthands
+ */
+function testButtons(): { pass: boolean; message: string }[] {
+  const results: { pass: boolean; message: string }[] = [];
+
+  // Test 1: Buttons become shorthands, with alignment and non-default targets
+  const html = '<div class="intercom-container"><a class="intercom-h2b-button" target="_blank" href="https://example.com">Button Text</a></div>' +
+    '<div class="intercom-container intercom-align-center"><a class="intercom-h2b-button" href="https://example.com/docs">Docs</a></div>';
+  const markdown = htmlToMarkdown(html);
+  const expectedMarkdown = '<!-- button:https://example.com -->Button Text<!-- /button -->\n\n' +
+    '<!-- align:center --><!-- button:https://example.com/docs target=_self -->Docs<!-- /button -->';
+  if (markdown === expectedMarkdown) {
+    results.push({ pass: true, message: '✓ Button to shorthand' });
+  } else {
+    results.push({ pass: false, message: `✗ Button to shorthand\n  Expected: ${expectedMarkdown}\n  Got: ${markdown}` });
+  }
+
+  // Test 2: URL and text are decoded in shorthands, and encoded again in HTML
+  const encodedHtml = '<div class="intercom-container"><a class="intercom-h2b-button" target="_blank" href="https://example.com/?a=1&amp;b=2">Fish &amp; Chips</a></div>';
+  const decodedMarkdown = '<!-- button:https://example.com/?a=1&b=2 -->Fish & Chips<!-- /button -->';
+  const decoded = htmlToMarkdown(encodedHtml);
+  const encoded = markdownToHtml(decoded);
+  if (decoded === decodedMarkdown && encoded === encodedHtml) {
+    results.push({ pass: true, message: '✓ Button entities decoded and encoded' });
+  } else {
+    results.push({
+      pass: false,
+      message: `✗ Button entities decoded and encoded\n  Expected: ${decodedMarkdown}\n  Got: ${decoded}\n  HTML: ${encoded}`,
+    });
+  }
+
+  // Test 3: Shorthands written by hand become buttons, not paragraphs or links
+  const written = markdownToHtml('Ready?\n\n<!-- align:right --><!-- button:https://example.com/start -->Get **started**<!-- /button -->');
+  const expectedHtml = '<p class="no-margin">Ready?</p>' +
+    '<div class="intercom-container intercom-align-right"><a class="intercom-h2b-button" target="_blank" href="https://example.com/start">Get <b>started</b></a></div>';
+  if (written === expectedHtml) {
+    results.push({ pass: true, message: '✓ Button shorthand to HTML' });
+  } else {
+    results.push({ pass: false, message: `✗ Button shorthand to HTML\n  Expected: ${expectedHtml}\n  Got: ${written}` });
+  }
+
+  return results;
+}
+
+/**
+ * Test collapsible section containers
+ */
+function testCollapsibles(): { pass: boolean; message: string }[] {
+  const results: { pass: boolean; message: string }[] = [];
+
+  // Test 1: Sections become containers with markdown content, nested ones inside
+  const html = '<details><summary><h2>Setup</h2></summary><div class="collapsible-section-content">' +
+    '<p class="no-margin">Run <b>install</b></p>' +
+    '<details><summary><h3>Windows</h3></summary><div class="collapsible-section-content"><p class="no-margin">Use the installer</p></div></details>' +
+    '</div></details>';
+  const markdown = htmlToMarkdown(html);
+  const expectedMarkdown = [
+    ':::collapsible', '## Setup', '', 'Run **install**', '',
+    ':::collapsible', '### Windows', '', 'Use the installer', '', ':::', '',
+    ':::',
+  ].join('\n');
+  if (markdown === expectedMarkdown) {
+    results.push({ pass: true, message: '✓ Collapsible to container' });
+  } else {
+    results.push({ pass: false, message: `✗ Collapsible to container\n  Expected: ${expectedMarkdown}\n  Got: ${markdown}` });
+  }
+
+  // Test 2: Plain-text titles and ":::" lines inside code blocks
+  const written = markdownToHtml(':::collapsible\nMore details\n\n```\n:::\n```\n:::');
+  const expectedHtml = '<details><summary>More details</summary><div class="collapsible-section-content">' +
+    '<pre><code>:::</code></pre></div></details>';
+  if (written === expectedHtml) {
+    results.push({ pass: true, message: '✓ Collapsible container to HTML' });
+  } else {
+    results.push({ pass: false, message: `✗ Collapsible container to HTML\n  Expected: ${expectedHtml}\n  Got: ${written}` });
+  }
+
+  // Test 3: Text that looks like a placeholder is left alone
+  const lookalikeHtml = '<p class="no-margin">Use %%collapsible-0%% here</p>' +
+    '<details><summary>Details</summary><div class="collapsible-section-content"><p class="no-margin">Inside</p></div></details>';
+  const lookalikeMarkdown = htmlToMarkdown(lookalikeHtml);
+  const expectedLookalike = 'Use %%collapsible-0%% here\n\n:::collapsible\nDetails\n\nInside\n\n:::';
+  const lookalikeBack = markdownToHtml(lookalikeMarkdown);
+  if (lookalikeMarkdown === expectedLookalike && lookalikeBack === lookalikeHtml) {
+    results.push({ pass: true, message: '✓ Placeholder-like text kept' });
+  } else {
+    results.push({
+      pass: false,
+      message: `✗ Placeholder-like text kept\n  Expected: ${expectedLookalike}\n  Got: ${lookalikeMarkdown}\n  HTML: ${lookalikeBack}`,
+    });
+  }
+
+  // Test 4: Unclosed containers are rejected
+  try {
+    markdownToHtml(':::collapsible\n## Title\n\ntext');
+    results.push({ pass: false, message: '✗ Unclosed collapsible rejected\n  No error thrown' });
+  } catch {
+    results.push({ pass: true, message: '✓ Unclosed collapsible rejected' });
+  }
+
+  return results;
+}
+
 // Run tests
 function runTests(): void {
   console.log('Running HTML roundtrip tests...\n');
@@ -222,6 +471,58 @@ function runTests(): void {
     }
   }
 
+  // Run attachment tests
+  console.log('\nRunning attachment tests...');
+  for (const result of testAttachments()) {
+    if (result.pass) {
+      passed++;
+      console.log(result.message);
+    } else {
+      failed++;
+      failures.push(result.message);
+      console.log(result.message);
+    }
+  }
+
+  // Run video embed tests
+  console.log('\nRunning video embed tests...');
+  for (const result of testVideoEmbeds()) {
+    if (result.pass) {
+      passed++;
+      console.log(result.message);
+    } else {
+      failed++;
+      failures.push(result.message);
+      console.log(result.message);
+    }
+  }
+
+  // Run button tests
+  console.log('\nRunning button tests...');
+  for (const result of testButtons()) {
+    if (result.pass) {
+      passed++;
+      console.log(result.message);
+    } else {
+      failed++;
+      failures.push(result.message);
+      console.log(result.message);
+    }
+  }
+
+  // Run collapsible tests
+  console.log('\nRunning collapsible tests...');
+  for (const result of testCollapsibles()) {
+    if (result.pass) {
+      passed++;
+      console.log(result.message);
+    } else {
+      failed++;
+      failures.push(result.message);
+      console.log(result.message);
+    }
+  }
+
   // Summary
   console.log('\n' + '='.repeat(50));
   console.log(`Results: ${passed} passed, ${failed} failed`);
@@ -0,0 +1,1130 @@
+/**
+ * End-to-end tests: full pull/push cycles against the fake Intercom server
+ *
+ * Each test runs on a fresh temp directory and a fresh server, and verifies that:
+ * 1. Pull writes articles, translations and the manifest; push creates/updates articles
+ * 2. Incremental pull, conflict detection and resolution, status, orphan handling and deletion work across cycles
+ * 3. Collections and help centers map to folders and directories
+ * 4. API versions and regions are honored, rate limits are retried and API errors surface as typed errors
+ *    (also as CLI exit codes)
+ * 5. Images are downloaded on pull, and local images uploaded on push (once per content)
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { FakeIntercomServer } from '../src/testing/fake-intercom-server';
+import { FakeS3Server } from '../src/testing/fake-s3-server';
+import { SyncFromIntercom } from '../src/sync/sync-from-intercom';
+import { SyncToIntercom } from '../src/sync/sync-to-intercom';
+import { SyncStatus } from '../src/sync/sync-status';
+import { readArticle, writeArticle, getAllMarkdownFiles, exists, ARCHIVE_DIR, SNAPSHOT_DIR } from '../src/utils/file-manager';
+import { loadManifest, saveManifest, removeManifestEntry, MANIFEST_FILE } from '../src/utils/manifest';
+import { readCollection, writeCollection } from '../src/utils/collections';
+import { getHelpCenterConfigs } from '../src/utils/help-centers';
+import { EXIT_CODES } from '../src/errors';
+import { IntercomConfig, LocalArticle, S3UploaderConfig } from '../src/types';
+
+interface TestContext {
+  server: FakeIntercomServer;
+  dir: string;
+  config: IntercomConfig;
+}
+
+type TestFn = (context: TestContext) => Promise<void>;
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`${message}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+/**
+ * Read all local articles, keyed by "intercom_id:locale" (or file name for new articles)
+ */
+async function readLocalArticles(dir: string): Promise<Map<string, LocalArticle>> {
+  const articles = new Map<string, LocalArticle>();
+  for (const file of await getAllMarkdownFiles(dir)) {
+    const article = await readArticle(file);
+    const { intercom_id: id, locale } = article.frontMatter;
+    articles.set(id ? `${id}:${locale}` : path.basename(file), article);
+  }
+  return articles;
+}
+
+/**
+ * One collection with two articles, one translated (bodies in Intercom's own HTML format)
+ */
+function seedHelpCenter(server: FakeIntercomServer): void {
+  server.addCollection({
+    id: '10',
+    name: 'Getting Started',
+    description: 'First steps',
+    translated_content: { ja: { type: 'collection_content', name: 'はじめに' } },
+  });
+  server.addArticle({
+    id: '1',
+    title: 'Welcome',
+    body: '<p class="no-margin">Hello <b>world</b></p>',
+    parent_id: '10',
+    parent_type: 'collection',
+    translated_content: {
+      ja: {
+        type: 'article_content',
+        title: 'ようこそ',
+        body: '<p class="no-margin">こんにちは</p>',
+        author_id: 1,
+        state: 'published',
+        created_at: 0,
+        updated_at: 0,
+      },
+    },
+  });
+  server.addArticle({ id: '2', title: 'Billing', body: '<p class="no-margin">Pay us</p>', parent_id: '10', parent_type: 'collection' });
+}
+
+/**
+ * Write an article referencing a new local image, returning its path
+ */
+async function writeNewImageArticle(folder: string): Promise<string> {
+  await fs.writeFile(path.join(folder, 'other.png'), 'other png');
+  const file = path.join(folder, 'Other.md');
+  await writeArticle(file, { title: 'Other', locale: 'en', author_id: 1 }, '![](other.png)\n');
+  return file;
+}
+
+const tests: Array<{ name: string; run: TestFn }> = [
+  {
+    name: 'pull writes articles, translations and the manifest',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+
+      const result = await new SyncFromIntercom(config).syncAll();
+      assert(result.success, `pull failed: ${JSON.stringify(result.errors)}`);
+      assertEqual(result.created, 3, 'created');
+
+      const articles = await readLocalArticles(dir);
+      const welcome = articles.get('1:en');
+      assert(welcome, 'en article missing');
+      assertEqual(welcome.content.trim(), 'Hello **world**', 'en content');
+      assertEqual(welcome.frontMatter.translations?.ja !== undefined, true, 'translations map');
+      assertEqual(articles.get('1:ja')?.content.trim(), 'こんにちは', 'ja content');
+
+      const manifest = await loadManifest(dir);
+      assertEqual(Object.keys(manifest.articles['1']).sort().join(','), 'en,ja', 'manifest locales');
+      assert(manifest.last_pull_at, 'last_pull_at not set');
+    },
+  },
+  {
+    name: 'pull follows pagination',
+    run: async ({ server, dir, config }) => {
+      for (let i = 1; i <= 5; i++) {
+        server.addArticle({ title: `Article ${i}`, body: `<p>Body ${i}</p>` });
+      }
+
+      const result = await new SyncFromIntercom(config).syncAll();
+      assertEqual(result.created, 5, 'created');
+      assertEqual((await readLocalArticles(dir)).size, 5, 'local files');
+      assertEqual(server.requests.filter(r => r.path === '/articles').length, 3, 'list requests');
+    },
+  },
+  {
+    name: 'second pull skips unchanged articles and picks up remote edits',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      const unchanged = await new SyncFromIntercom(config).syncAll();
+      assertEqual(unchanged.updated, 0, 'updated without remote changes');
+      assertEqual(unchanged.skipped, 3, 'skipped');
+
+      server.updateArticle('2', { body: '<p>Pay us more</p>' });
+      const result = await new SyncFromIntercom(config).syncAll();
+      assertEqual(result.updated, 1, 'updated after remote edit');
+      assertEqual((await readLocalArticles(dir)).get('2:en')?.content.trim(), 'Pay us more', 'pulled content');
+    },
+  },
+  {
+    name: 'pull keeps custom front-matter keys and their order',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      const billing = (await readLocalArticles(dir)).get('2:en')!;
+      const raw = (await fs.readFile(billing.filePath, 'utf-8'))
+        .replace('---\n', '---\nowner: finance-team\n')
+        .replace('title: Billing\n', 'title: Billing\nlast_reviewed: 2024-05-01\ntags:\n  - payments\n');
+      await fs.writeFile(billing.filePath, raw);
+      server.updateArticle('2', { title: 'Billing', state: 'draft' });
+
+      await new SyncFromIntercom(config).syncAll();
+      const { frontMatter } = await readArticle(billing.filePath);
+      assertEqual(frontMatter.status, 'draft', 'remote field');
+      assertEqual(frontMatter.owner, 'finance-team', 'owner');
+      assertEqual(frontMatter.last_reviewed, '2024-05-01', 'last_reviewed');
+      assertEqual(JSON.stringify(frontMatter.tags), '["payments"]', 'tags');
+      assertEqual(
+        Object.keys(frontMatter).join(),
+        'owner,intercom_id,intercom_collection_id,locale,updated_at,status,title,last_reviewed,tags,author_id',
+        'key order'
+      );
+    },
+  },
+  {
+    name: 'descriptions and per-locale status, author and updated_at round-trip',
+    run: async ({ server, dir, config }) => {
+      server.addArticle({
+        id: '5',
+        title: 'Pricing',
+        description: 'What it costs',
+        body: '<p class="no-margin">Plans</p>',
+        author_id: 1,
+        state: 'published',
+        translated_content: {
+          ja: {
+            type: 'article_content',
+            title: '料金',
+            description: '価格',
+            body: '<p class="no-margin">プラン</p>',
+            author_id: 7,
+            state: 'draft',
+            created_at: 1700000000,
+            updated_at: 1700000000,
+          },
+        },
+      });
+      await new SyncFromIntercom(config).syncAll();
+
+      const pulled = await readLocalArticles(dir);
+      const en = pulled.get('5:en')!.frontMatter;
+      const ja = pulled.get('5:ja')!;
+      assertEqual(en.description, 'What it costs', 'en description');
+      assertEqual(en.status, 'published', 'en status');
+      assertEqual(ja.frontMatter.description, '価格', 'ja description');
+      assertEqual(ja.frontMatter.status, 'draft', 'ja status');
+      assertEqual(ja.frontMatter.author_id, 7, 'ja author_id');
+      assertEqual(ja.frontMatter.updated_at, '2023-11-14T22:13:20.000Z', 'ja updated_at');
+
+      await writeArticle(ja.filePath, { ...ja.frontMatter, status: 'published', description: '料金プラン' }, ja.content);
+      const push = await new SyncToIntercom(config).syncAll();
+      assertEqual(push.updated, 1, 'updated');
+      const remote = server.articles.get('5')!;
+      assertEqual(remote.state, 'published', 'remote en state');
+      assertEqual(remote.translated_content?.ja.state, 'published', 'remote ja state');
+      assertEqual(remote.translated_content?.ja.description, '料金プラン', 'remote ja description');
+      assertEqual(remote.translated_content?.ja.author_id, 7, 'remote ja author_id');
+
+      const again = await new SyncFromIntercom(config).syncAll();
+      assertEqual(again.created + again.updated, 0, 'changes on pull after push');
+
+      // A changed author alone is pushed too
+      const jaAgain = (await readLocalArticles(dir)).get('5:ja')!;
+      await writeArticle(jaAgain.filePath, { ...jaAgain.frontMatter, author_id: 99 }, jaAgain.content);
+      const authorPush = await new SyncToIntercom(config).syncAll();
+      assertEqual(authorPush.updated, 1, 'updated after author change');
+      assertEqual(server.articles.get('5')!.translated_content?.ja.author_id, 99, 'remote ja author_id after change');
+    },
+  },
+  {
+    name: 'push updates edited articles and creates new ones',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      const billing = (await readLocalArticles(dir)).get('2:en');
+      assert(billing, 'billing article missing');
+      await writeArticle(billing.filePath, billing.frontMatter, 'Pay us *later*\n');
+
+      const newFile = path.join(dir, 'en', 'Getting-Started', 'FAQ.md');
+      await writeArticle(newFile, { locale: 'en', title: 'FAQ', author_id: 1, intercom_collection_id: '10' }, 'Questions\n');
+
+      const result = await new SyncToIntercom(config).syncAll();
+      assert(result.success, `push failed: ${JSON.stringify(result.errors)}`);
+      assertEqual(result.updated, 1, 'updated');
+      assertEqual(result.created, 1, 'created');
+
+      assertEqual(server.articles.get('2')?.body.includes('<i>later</i>'), true, 'remote body updated');
+      const created = Array.from(server.articles.values()).find(a => a.title === 'FAQ');
+      assert(created, 'FAQ not created');
+      assertEqual(created.parent_id, '10', 'collection of created article');
+      assertEqual((await readArticle(newFile)).frontMatter.intercom_id, created.id, 'intercom_id written back');
+
+      // Articles unchanged since the last sync are skipped by their manifest hash, without fetching them
+      server.reset();
+      const again = await new SyncToIntercom(config).syncAll();
+      assertEqual(again.updated + again.created, 0, 'second push changed articles');
+      assertEqual(again.skipped, 3, 'skipped on second push');
+      const articleRequests = server.requests.filter(request => /^\/articles\/\d+$/.test(request.path));
+      assertEqual(articleRequests.length, 0, 'article requests on second push');
+    },
+  },
+  {
+    name: 'collections sync through _collection.yml files',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      const enFile = path.join(dir, 'en', 'getting-started', '_collection.yml');
+      const en = await readCollection(enFile);
+      assertEqual(en.metadata.intercom_id, '10', 'collection id');
+      assertEqual(en.metadata.description, 'First steps', 'description');
+      const ja = await readCollection(path.join(dir, 'ja', 'getting-started', '_collection.yml'));
+      assertEqual(ja.metadata.name, 'はじめに', 'ja name');
+
+      await writeCollection(enFile, { ...en.metadata, name: 'Start Here' });
+      const newFolder = path.join(dir, 'en', 'new-stuff');
+      await writeCollection(path.join(newFolder, '_collection.yml'), { locale: 'en', name: 'New Stuff' });
+      await writeArticle(path.join(newFolder, 'Guide.md'), { locale: 'en', title: 'Guide', author_id: 1 }, 'Read me\n');
+
+      const result = await new SyncToIntercom(config).syncAll();
+      assert(result.success, `push failed: ${JSON.stringify(result.errors)}`);
+      assertEqual(result.collections?.updated, 1, 'collections updated');
+      assertEqual(result.collections?.created, 1, 'collections created');
+      assertEqual(server.collections.get('10')?.name, 'Start Here', 'remote name');
+      assertEqual(server.collections.get('10')?.translated_content?.ja?.name, 'はじめに', 'remote ja name');
+
+      const created = (await readCollection(path.join(newFolder, '_collection.yml'))).metadata.intercom_id;
+      assert(created && server.collections.get(created)?.name === 'New Stuff', 'new collection not created');
+      const guide = Array.from(server.articles.values()).find(a => a.title === 'Guide');
+      assertEqual(guide?.parent_id, created, 'collection of new article');
+    },
+  },
+  {
+    name: 'nested collections are mirrored as nested folders',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      server.addCollection({ id: '11', name: 'Setup', parent_id: '10' });
+      server.addArticle({ id: '3', title: 'Install', body: '<p class="no-margin">Run it</p>', parent_id: '11' });
+
+      await new SyncFromIntercom(config).syncAll();
+      const install = (await readLocalArticles(dir)).get('3:en');
+      assertEqual(path.relative(dir, install?.filePath || ''), path.join('en', 'getting-started', 'setup', 'Install.md'), 'nested path');
+
+      const advanced = path.join(dir, 'en', 'getting-started', 'setup', 'advanced');
+      await writeCollection(path.join(advanced, '_collection.yml'), { locale: 'en', name: 'Advanced' });
+      await writeArticle(path.join(advanced, 'Tuning.md'), { locale: 'en', title: 'Tuning', author_id: 1 }, 'Tune it\n');
+
+      const result = await new SyncToIntercom(config).syncAll();
+      assert(result.success, `push failed: ${JSON.stringify(result.errors)}`);
+      const created = Array.from(server.collections.values()).find(c => c.name === 'Advanced');
+      assertEqual(created?.parent_id, '11', 'parent of new collection');
+      assertEqual(Array.from(server.articles.values()).find(a => a.title === 'Tuning')?.parent_id, created?.id, 'collection of new article');
+      assertEqual(result.collections?.updated, 0, 'existing collections updated');
+    },
+  },
+  {
+    name: 'path templates name files once and keep them stable',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      const templated = { ...config, pathTemplate: '{locale}/{collection}/{id}-{slug}.md', slugStrategy: 'transliterate' as const };
+      await new SyncFromIntercom(templated).syncAll();
+
+      const welcomePath = path.join(dir, 'en', 'getting-started', '1-welcome.md');
+      const pulled = await readLocalArticles(dir);
+      assertEqual(pulled.get('1:en')?.filePath, welcomePath, 'default locale path');
+      assertEqual(pulled.get('1:ja')?.filePath, path.join(dir, 'ja', 'getting-started', '1-youkoso.md'), 'translation path');
+      assertEqual(pulled.get('1:en')?.frontMatter.translations?.ja, path.join('ja', 'getting-started', '1-youkoso.md'), 'translations map');
+
+      server.updateArticle('1', { title: 'Hello there' });
+      await new SyncFromIntercom(templated).syncAll();
+      const renamed = (await readLocalArticles(dir)).get('1:en');
+      assertEqual(renamed?.filePath, welcomePath, 'path after title edit');
+      assertEqual(renamed?.frontMatter.title, 'Hello there', 'title after title edit');
+
+      await writeArticle(welcomePath, { ...renamed!.frontMatter, slug: 'hello' }, renamed!.content);
+      await new SyncFromIntercom(templated, { full: true }).syncAll();
+      const pinned = (await readLocalArticles(dir)).get('1:en');
+      assertEqual(pinned?.filePath, path.join(dir, 'en', 'getting-started', '1-hello.md'), 'path with pinned slug');
+      assertEqual(pinned?.frontMatter.slug, 'hello', 'pinned slug kept');
+    },
+  },
+  {
+    name: 'titles with the same slug get unique file names',
+    run: async ({ server, dir, config }) => {
+      server.addCollection({ id: '10', name: 'Billing' });
+      server.addArticle({ id: '1', title: '料金 FAQ', body: '<p class="no-margin">Prices</p>', parent_id: '10', parent_type: 'collection' });
+      server.addArticle({ id: '2', title: '請求 FAQ', body: '<p class="no-margin">Invoices</p>', parent_id: '10', parent_type: 'collection' });
+      const transliterated = { ...config, slugStrategy: 'transliterate' as const };
+      await new SyncFromIntercom(transliterated).syncAll();
+
+      const pulled = await readLocalArticles(dir);
+      assertEqual(pulled.get('1:en')?.filePath, path.join(dir, 'en', 'billing', 'faq.md'), 'first path');
+      assertEqual(pulled.get('2:en')?.filePath, path.join(dir, 'en', 'billing', 'faq-2.md'), 'second path');
+      assertEqual(pulled.get('1:en')?.content.trim(), 'Prices', 'first content');
+      const manifest = await loadManifest(dir);
+      assertEqual(`${manifest.articles['1'].en.path},${manifest.articles['2'].en.path}`, 'en/billing/faq.md,en/billing/faq-2.md', 'manifest paths');
+
+      // Paths stay put on the next pull, and nothing is taken for deleted
+      const second = await new SyncFromIntercom(transliterated, { full: true }).syncAll();
+      assertEqual(second.created + second.errors.length, 0, 'created or failed on second pull');
+      assertEqual((await getAllMarkdownFiles(dir)).length, 2, 'files after second pull');
+      const found = await new SyncToIntercom(transliterated).findDeletedArticles();
+      assertEqual(found.candidates.length, 0, 'deletion candidates');
+    },
+  },
+  {
+    name: 'moving a file to another collection folder moves the article',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      server.addCollection({ id: '11', name: 'Setup', parent_id: '10' });
+      await new SyncFromIntercom(config).syncAll();
+
+      const before = await readLocalArticles(dir);
+      const welcome = before.get('1:en')!;
+      const movedPath = path.join(dir, 'en', 'getting-started', 'setup', 'Welcome.md');
+      await fs.rename(welcome.filePath, movedPath);
+
+      // A refused push leaves the translation where it was
+      server.updateArticle('1', { body: '<p class="no-margin">Remote edit</p>' });
+      const refused = await new SyncToIntercom(config).syncAll();
+      assertEqual(refused.errors[0]?.code, 'CONFLICT', 'refused push error code');
+      assertEqual(await exists(before.get('1:ja')!.filePath), true, 'translation kept after refused push');
+      assertEqual((await readArticle(before.get('1:ja')!.filePath)).frontMatter.intercom_collection_id, '10', 'collection after refused push');
+      server.updateArticle('1', { body: '<p class="no-margin">Hello <b>world</b></p>' });
+
+      const result = await new SyncToIntercom(config).syncAll();
+      assert(result.success, `push failed: ${JSON.stringify(result.errors)}`);
+      assertEqual(server.articles.get('1')?.parent_id, '11', 'remote parent_id');
+
+      const after = await readLocalArticles(dir);
+      const ja = after.get('1:ja');
+      assertEqual(path.dirname(ja?.filePath || ''), path.join(dir, 'ja', 'getting-started', 'setup'), 'translation folder');
+      assertEqual(await fs.access(before.get('1:ja')!.filePath).then(() => true, () => false), false, 'old translation removed');
+      assertEqual(after.get('1:en')?.frontMatter.intercom_collection_id, '11', 'intercom_collection_id');
+      assertEqual(after.get('1:en')?.frontMatter.translations?.ja, path.relative(dir, ja!.filePath), 'translations path');
+
+      const again = await new SyncToIntercom(config).syncAll();
+      assertEqual(again.updated, 0, 'second push updated');
+      const pull = await new SyncFromIntercom(config).syncAll();
+      assertEqual(pull.created, 0, 'files created by pull after move');
+      assertEqual((await readLocalArticles(dir)).get('1:en')?.filePath, movedPath, 'path after pull');
+    },
+  },
+  {
+    name: 'each help center syncs to its own directory',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      server.addHelpCenter({ id: '100', identifier: 'customers' });
+      server.addHelpCenter({ id: '200', identifier: 'partners' });
+      server.collections.get('10')!.help_center_id = '100';
+      server.addCollection({ id: '20', name: 'Partner API', help_center_id: '200' });
+      server.addArticle({ id: '3', title: 'Keys', body: '<p class="no-margin">Ask us</p>', parent_id: '20', parent_type: 'collection' });
+
+      const customersDir = path.join(dir, 'customers');
+      const partnersDir = path.join(dir, 'partners');
+      const configs = getHelpCenterConfigs({
+        ...config,
+        helpCenters: [
+          { id: '100', articlesDir: customersDir, name: 'customers' },
+          { id: '200', articlesDir: partnersDir },
+        ],
+      });
+      for (const helpCenterConfig of configs) {
+        const result = await new SyncFromIntercom(helpCenterConfig).syncAll();
+        assert(result.success, `pull failed: ${JSON.stringify(result.errors)}`);
+      }
+
+      assertEqual(Array.from((await readLocalArticles(customersDir)).keys()).sort().join(), '1:en,1:ja,2:en', 'customers articles');
+      assertEqual(Array.from((await readLocalArticles(partnersDir)).keys()).join(), '3:en', 'partners articles');
+
+      const newFile = path.join(customersDir, 'en', 'getting-started', 'Partner Keys.md');
+      await writeArticle(newFile, { title: 'Partner Keys', locale: 'en', intercom_collection_id: '20' }, 'Ask them\n');
+      const push = await new SyncToIntercom(configs[0]).syncFile(newFile);
+      assertEqual(push.errors[0]?.code, 'CONFIG', 'error code');
+      assertEqual(server.articles.size, 3, 'remote articles');
+    },
+  },
+  {
+    name: 'pull downloads Intercom-hosted images into _assets',
+    run: async ({ server, dir, config }) => {
+      const imageUrl = 'https://downloads.intercomcdn.com/i/o/1/abc/image.png';
+      server.addCollection({ id: '10', name: 'Guides' });
+      server.addArticle({
+        id: '1',
+        title: 'Screens',
+        body: `<p class="no-margin">See below</p><div class="intercom-container"><img src="${imageUrl}?expires=1&amp;signature=x"></div>`,
+        parent_id: '10',
+        parent_type: 'collection',
+      });
+
+      const fetched: string[] = [];
+      const fetchImage = async (url: string): Promise<Buffer> => {
+        fetched.push(url);
+        return Buffer.from('png');
+      };
+      const imagesConfig = { ...config, downloadImages: true };
+      const result = await new SyncFromIntercom(imagesConfig, { fetchImage }).syncAll();
+      assert(result.success, `pull failed: ${JSON.stringify(result.errors)}`);
+      assertEqual(fetched.join(','), `${imageUrl}?expires=1&signature=x`, 'fetched signed URL');
+
+      const manifest = await loadManifest(dir);
+      const [assetPath] = Object.keys(manifest.assets || {});
+      assert(assetPath?.startsWith('_assets/1/'), `asset path: ${assetPath}`);
+      assertEqual(await fs.readFile(path.join(dir, assetPath), 'utf-8'), 'png', 'downloaded image');
+
+      const article = (await readLocalArticles(dir)).get('1:en');
+      assert(article, 'article missing');
+      assert(article.content.includes(`](../../${assetPath})`), `relative link: ${article.content}`);
+
+      // Links push back as the Intercom URLs, so nothing changed
+      const push = await new SyncToIntercom(imagesConfig).syncFile(article.filePath);
+      assertEqual(push.skipped, 1, 'push skipped');
+
+      const again = await new SyncFromIntercom(imagesConfig, { fetchImage, full: true }).syncAll();
+      assertEqual(again.conflicts.length, 0, 'conflicts');
+      assertEqual(fetched.length, 1, 'images downloaded once');
+      assertEqual((await readLocalArticles(dir)).get('1:en')?.content, article.content, 'content after second pull');
+    },
+  },
+  {
+    name: 'push uploads new local images to a static directory once',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      const folder = path.dirname((await readLocalArticles(dir)).get('2:en')!.filePath);
+      await fs.mkdir(path.join(folder, 'images'));
+      await fs.writeFile(path.join(folder, 'images', 'new shot.png'), 'png');
+      const newFile = path.join(folder, 'Screens.md');
+      await writeArticle(newFile, { title: 'Screens', locale: 'en', author_id: 1 }, 'See ![](./images/new%20shot.png)\n');
+
+      const staticDir = path.join(dir, '..', `${path.basename(dir)}-static`);
+      const uploadConfig: IntercomConfig = {
+        ...config,
+        imageUploader: { type: 'local', dir: staticDir, baseUrl: 'https://static.example.com/help/' },
+      };
+      try {
+        const result = await new SyncToIntercom(uploadConfig).syncFile(newFile);
+        assert(result.success, `push failed: ${JSON.stringify(result.errors)}`);
+
+        const [key] = await fs.readdir(staticDir);
+        assert(/^[0-9a-f]{16}-new-shot\.png$/.test(key), `uploaded file: ${key}`);
+        const created = Array.from(server.articles.values()).find(a => a.title === 'Screens');
+        assert(created?.body.includes(`src="https://static.example.com/help/${key}"`), `body: ${created?.body}`);
+
+        // The same image in another article is not uploaded again, and the file keeps its local path
+        await fs.rm(path.join(staticDir, key));
+        const other = path.join(folder, 'More-Screens.md');
+        await writeArticle(other, { title: 'More Screens', locale: 'en', author_id: 1 }, '![](images/new%20shot.png)\n');
+        await new SyncToIntercom(uploadConfig).syncFile(other);
+        assertEqual((await fs.readdir(staticDir)).length, 0, 'uploads after dedup');
+        assertEqual((await readArticle(newFile)).content.trim(), 'See ![](./images/new%20shot.png)', 'local content');
+
+        const again = await new SyncToIntercom(uploadConfig).syncFile(newFile);
+        assertEqual(again.skipped, 1, 'second push skipped');
+
+        // A later edit in Intercom is pulled, not mistaken for a local edit of the image link
+        const pushed = Array.from(server.articles.values()).find(a => a.title === 'More Screens');
+        assert(pushed, 'More Screens article missing');
+        server.updateArticle(pushed.id, { body: `${pushed.body}<p>Remote addition</p>` });
+        const pulled = await new SyncFromIntercom(uploadConfig).syncAll();
+        assertEqual(pulled.conflicts.length, 0, 'pull conflicts');
+        assert((await readArticle(other)).content.includes('Remote addition'), 'remote edit not pulled');
+
+        // Undecodable paths are reported as parse errors
+        const broken = path.join(folder, 'Broken.md');
+        await writeArticle(broken, { title: 'Broken', locale: 'en', author_id: 1 }, '![](100%.png)\n');
+        const failed = await new SyncToIntercom(uploadConfig).syncFile(broken);
+        assertEqual(failed.errors[0]?.code, 'LOCAL_PARSE', 'error code for 100%.png');
+      } finally {
+        await fs.rm(staticDir, { recursive: true, force: true });
+      }
+    },
+  },
+  {
+    name: 'push uploads local images to an S3-compatible store',
+    run: async ({ server, dir, config }) => {
+      const s3 = new FakeS3Server({ bucket: 'help-images' });
+      const endpoint = await s3.start();
+      try {
+        server.addCollection({ id: '10', name: 'Guides' });
+        const folder = path.join(dir, 'en', 'Guides');
+        await fs.mkdir(folder, { recursive: true });
+        await fs.writeFile(path.join(folder, 'shot.png'), 'png');
+        const file = path.join(folder, 'Screens.md');
+        await writeArticle(file, { title: 'Screens', locale: 'en', author_id: 1, intercom_collection_id: '10' }, '![](shot.png)\n');
+
+        const uploader: S3UploaderConfig = {
+          type: 's3',
+          endpoint,
+          bucket: 'help-images',
+          prefix: 'articles/',
+          accessKeyId: 'test-access-key',
+          secretAccessKey: 'test-secret-key',
+        };
+        const s3Config: IntercomConfig = { ...config, imageUploader: uploader };
+        const result = await new SyncToIntercom(s3Config).syncFile(file);
+        assert(result.success, `push failed: ${JSON.stringify(result.errors)}`);
+        assertEqual(s3.uploads.length, 1, 'uploads');
+        assertEqual(s3.objects.get(s3.uploads[0])?.contentType, 'image/png', 'content type');
+        const created = Array.from(server.articles.values()).find(a => a.title === 'Screens');
+        assert(created?.body.includes(`src="${endpoint}/help-images/${s3.uploads[0]}"`), `body: ${created?.body}`);
+
+        // Text edits push without re-uploading the unchanged image
+        const local = await readArticle(file);
+        await writeArticle(file, local.frontMatter, `${local.content.trim()}\n\nMore text\n`);
+        const update = await new SyncToIntercom(s3Config).syncFile(file);
+        assertEqual(update.updated, 1, 'updated');
+        assertEqual(s3.uploads.length, 1, 'uploads after edit');
+
+        const wrongKey = await new SyncToIntercom({ ...config, imageUploader: { ...uploader, secretAccessKey: 'wrong' } })
+          .syncFile(await writeNewImageArticle(folder));
+        assertEqual(wrongKey.errors[0]?.code, 'UPLOAD', 'error code with wrong credentials');
+      } finally {
+        await s3.stop();
+      }
+    },
+  },
+  {
+    name: 'push refuses to overwrite articles changed in Intercom since the last pull',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      const billing = (await readLocalArticles(dir)).get('2:en');
+      assert(billing, 'billing article missing');
+      await writeArticle(billing.filePath, billing.frontMatter, 'Local edit\n');
+      server.updateArticle('2', { body: '<p>Remote edit</p>' });
+
+      const result = await new SyncToIntercom(config).syncFile(billing.filePath);
+      assertEqual(result.errors[0]?.code, 'CONFLICT', 'error code');
+      assertEqual(server.articles.get('2')?.body, '<p>Remote edit</p>', 'remote body');
+    },
+  },
+  {
+    name: 'push detects remote changes from the manifest when .original/ is missing',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+      await fs.rm(path.join(dir, SNAPSHOT_DIR), { recursive: true, force: true });
+
+      const articles = await readLocalArticles(dir);
+      const billing = articles.get('2:en');
+      const welcome = articles.get('1:en');
+      assert(billing && welcome, 'articles missing');
+      await writeArticle(billing.filePath, billing.frontMatter, 'Local edit\n');
+      await writeArticle(welcome.filePath, welcome.frontMatter, 'Local welcome\n');
+      server.updateArticle('2', { body: '<p>Remote edit</p>' });
+
+      const refused = await new SyncToIntercom(config).syncFile(billing.filePath);
+      assertEqual(refused.errors[0]?.code, 'CONFLICT', 'error code');
+      assertEqual(server.articles.get('2')?.body, '<p>Remote edit</p>', 'remote body');
+
+      const pushed = await new SyncToIntercom(config).syncFile(welcome.filePath);
+      assert(pushed.success && pushed.errors.length === 0, `push failed: ${JSON.stringify(pushed.errors)}`);
+      assertEqual(pushed.updated, 1, 'updated');
+    },
+  },
+  {
+    name: 'push refuses to revert title, status and collection changed in Intercom',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      server.addCollection({ id: '11', name: 'Payments' });
+      await new SyncFromIntercom(config).syncAll();
+
+      server.updateArticle('1', { title: 'Welcome aboard', state: 'draft' });
+      server.updateArticle('2', { parent_id: '11' });
+
+      const states = (await new SyncStatus(config).getStatus())
+        .filter(status => status.locale === 'en' && status.intercomId)
+        .map(status => `${status.intercomId}=${status.state}`)
+        .sort()
+        .join(',');
+      assertEqual(states, '1=remote-modified,2=remote-modified', 'status');
+
+      // Files unchanged since the pull are skipped; edited ones are refused
+      const skipped = await new SyncToIntercom(config).syncAll();
+      assertEqual(skipped.errors.length, 0, 'errors of unchanged files');
+      assertEqual(skipped.skipped, 2, 'skipped');
+      const pulled = await readLocalArticles(dir);
+      for (const id of ['1', '2']) {
+        const article = pulled.get(`${id}:en`)!;
+        await writeArticle(article.filePath, article.frontMatter, `${article.content.trim()}\n\nLocal note\n`);
+      }
+      const push = await new SyncToIntercom(config).syncAll();
+      assertEqual(push.errors.map(e => e.code).join(','), 'CONFLICT,CONFLICT', 'error codes');
+      assert(push.errors.some(e => e.error.includes('en: title, status')), `errors: ${JSON.stringify(push.errors)}`);
+      const welcome = server.articles.get('1')!;
+      assertEqual(`${welcome.title}:${welcome.state}`, 'Welcome aboard:draft', 'remote title and state');
+      assertEqual(server.articles.get('2')!.parent_id, '11', 'remote collection');
+
+      // After a pull, local edits are pushed as usual
+      await new SyncFromIntercom(config, { force: true }).syncAll();
+      const billing = (await readLocalArticles(dir)).get('2:en')!;
+      assertEqual(path.basename(path.dirname(billing.filePath)), 'payments', 'pulled folder');
+      await writeArticle(billing.filePath, { ...billing.frontMatter, title: 'Billing and payments' }, billing.content);
+      const pushed = await new SyncToIntercom(config).syncAll();
+      assert(pushed.errors.length === 0, `push failed: ${JSON.stringify(pushed.errors)}`);
+      assertEqual(pushed.updated, 1, 'updated');
+      assertEqual(server.articles.get('2')!.title, 'Billing and payments', 'pushed title');
+      assertEqual(server.articles.get('1')!.state, 'draft', 'state kept');
+    },
+  },
+  {
+    name: 'pull handles local edits with the skip, side-file and merge strategies',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      const billing = (await readLocalArticles(dir)).get('2:en')!;
+      await writeArticle(billing.filePath, billing.frontMatter, 'Pay us\n\nLocal note\n');
+      server.updateArticle('2', { body: '<p class="no-margin">Remote intro</p><p class="no-margin">Pay us</p>' });
+
+      const skipped = await new SyncFromIntercom(config).syncAll();
+      assertEqual(skipped.conflicts.map(c => `${c.articleId}:${c.resolution}`).join(','), '2:skip', 'skip conflicts');
+      assertEqual((await readArticle(billing.filePath)).content.trim(), 'Pay us\n\nLocal note', 'content after skip');
+
+      const sideFile = await new SyncFromIntercom(config, { onConflict: 'side-file' }).syncAll();
+      assertEqual(sideFile.conflicts[0]?.resolution, 'side-file', 'side-file resolution');
+      const remoteCopy = await readArticle(billing.filePath.replace(/\.md$/, '.remote.md'));
+      assert(remoteCopy.content.includes('Remote intro'), `side file: ${remoteCopy.content}`);
+      assertEqual((await readArticle(billing.filePath)).content.trim(), 'Pay us\n\nLocal note', 'content after side-file');
+      await fs.rm(remoteCopy.filePath);
+
+      const merged = await new SyncFromIntercom(config, { onConflict: 'merge' }).syncAll();
+      assertEqual(merged.conflicts[0]?.resolution, 'merge', 'merge resolution');
+      const content = (await readArticle(billing.filePath)).content;
+      assert(content.includes('Remote intro') && content.includes('Local note'), `merged content: ${content}`);
+      assert(!content.includes('<<<<<<<'), 'conflict markers in a clean merge');
+    },
+  },
+  {
+    name: 'pull protects edited files it cannot compare with the last pull',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+      await fs.rm(path.join(dir, SNAPSHOT_DIR), { recursive: true, force: true });
+      await fs.rm(path.join(dir, MANIFEST_FILE));
+
+      const billing = (await readLocalArticles(dir)).get('2:en')!;
+      await writeArticle(billing.filePath, billing.frontMatter, 'Local edit\n');
+      server.updateArticle('2', { body: '<p class="no-margin">Remote edit</p>' });
+
+      const result = await new SyncFromIntercom(config).syncAll();
+      assertEqual(result.conflicts.map(c => c.articleId).join(','), '2', 'conflicts');
+      assertEqual((await readArticle(billing.filePath)).content.trim(), 'Local edit', 'local content');
+    },
+  },
+  {
+    name: 'push --merge merges remote edits that do not overlap local ones',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      const billing = (await readLocalArticles(dir)).get('2:en')!;
+      await writeArticle(billing.filePath, billing.frontMatter, 'Pay us\n\nLocal note\n');
+      server.updateArticle('2', { body: '<p class="no-margin">Remote intro</p><p class="no-margin">Pay us</p>' });
+
+      const refused = await new SyncToIntercom(config).syncFile(billing.filePath);
+      assertEqual(refused.errors[0]?.code, 'CONFLICT', 'error code without --merge');
+
+      const result = await new SyncToIntercom(config, { merge: true }).syncFile(billing.filePath);
+      assert(result.success && result.errors.length === 0, `merge push failed: ${JSON.stringify(result.errors)}`);
+      assertEqual(result.updated, 1, 'updated');
+      const body = server.articles.get('2')!.body;
+      assert(body.includes('Remote intro') && body.includes('Local note'), `remote body: ${body}`);
+      assert((await readArticle(billing.filePath)).content.includes('Remote intro'), 'merge not written locally');
+
+      // Overlapping edits are still refused
+      await writeArticle(billing.filePath, billing.frontMatter, 'Local intro\n\nPay us\n\nLocal note\n');
+      server.updateArticle('2', { body: '<p class="no-margin">Other intro</p><p class="no-margin">Pay us</p><p class="no-margin">Local note</p>' });
+      const overlapping = await new SyncToIntercom(config, { merge: true }).syncFile(billing.filePath);
+      assertEqual(overlapping.errors[0]?.code, 'CONFLICT', 'error code for overlapping edits');
+    },
+  },
+  {
+    name: 'attachments keep their position and count as changes in status, pull and push',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      const attachmentList = (...names: string[]) =>
+        '<div class="intercom-interblocks-attachment-list">' +
+        names.map(name =>
+          `<a class="intercom-interblocks-attachment" href="https://intercom-attachments-1.com/${name}" target="_blank" rel="nofollow noopener noreferrer">${name}</a>`
+        ).join('') +
+        '</div>';
+      server.updateArticle('2', {
+        body: `<p class="no-margin">Before</p>${attachmentList('a.pdf')}<p class="no-margin">After</p>`,
+      });
+      await new SyncFromIntercom(config).syncAll();
+
+      const billing = (await readLocalArticles(dir)).get('2:en')!;
+      assertEqual(billing.content.trim(), 'Before\n\n<!-- attachments -->\n\nAfter', 'pulled content');
+      assertEqual(billing.frontMatter.attachments?.map(a => a.name).join(','), 'a.pdf', 'pulled attachments');
+      const unchanged = await new SyncToIntercom(config).syncFile(billing.filePath);
+      assertEqual(unchanged.skipped, 1, 'unchanged push skipped');
+
+      // An attachment added in Intercom is a remote change
+      server.updateArticle('2', {
+        body: `<p class="no-margin">Before</p>${attachmentList('a.pdf', 'b.pdf')}<p class="no-margin">After</p>`,
+      });
+      const states = (await new SyncStatus(config).getStatus())
+        .filter(status => status.intercomId === '2')
+        .map(status => status.state);
+      assertEqual(states.join(','), 'remote-modified', 'status');
+
+      await writeArticle(billing.filePath, billing.frontMatter, 'Before\n\n<!-- attachments -->\n\nAfter, edited\n');
+      const refused = await new SyncToIntercom(config).syncFile(billing.filePath);
+      assertEqual(refused.errors[0]?.code, 'CONFLICT', 'error code');
+
+      const merged = await new SyncToIntercom(config, { merge: true }).syncFile(billing.filePath);
+      assert(merged.success && merged.errors.length === 0, `merge push failed: ${JSON.stringify(merged.errors)}`);
+      assertEqual(
+        server.articles.get('2')!.body,
+        `<p class="no-margin">Before</p>${attachmentList('a.pdf', 'b.pdf')}<p class="no-margin">After, edited</p>`,
+        'merged remote body'
+      );
+      const local = await readArticle(billing.filePath);
+      assertEqual(local.frontMatter.attachments?.map(a => a.name).join(','), 'a.pdf,b.pdf', 'merged attachments');
+
+      // An attachment removed locally is a local edit that pull doesn't overwrite
+      await writeArticle(billing.filePath, { ...local.frontMatter, attachments: undefined }, local.content);
+      server.updateArticle('2', { body: `<p class="no-margin">Before</p>${attachmentList('a.pdf', 'b.pdf')}<p class="no-margin">Remote</p>` });
+      const pulled = await new SyncFromIntercom(config).syncAll();
+      assertEqual(pulled.conflicts.map(c => c.articleId).join(','), '2', 'pull conflicts');
+    },
+  },
+  {
+    name: 'status classifies local and remote changes',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      server.addArticle({ id: '3', title: 'Legacy', body: '<p>Old</p>', parent_id: '10', parent_type: 'collection' });
+      await new SyncFromIntercom(config).syncAll();
+
+      const articles = await readLocalArticles(dir);
+      const billing = articles.get('2:en')!;
+      const welcomeJa = articles.get('1:ja')!;
+      await writeArticle(billing.filePath, billing.frontMatter, 'Pay us more\n');
+      await writeArticle(welcomeJa.filePath, welcomeJa.frontMatter, 'ローカル\n');
+      const ja = server.articles.get('1')!.translated_content!.ja;
+      server.updateArticle('1', {
+        body: '<p class="no-margin">Hello <b>everyone</b></p>',
+        translated_content: { ja: { ...ja, body: '<p class="no-margin">リモート</p>' } },
+      });
+      server.articles.delete('3');
+      server.addArticle({ id: '4', title: 'Brand new', body: '<p>New</p>', parent_id: '10', parent_type: 'collection' });
+      await writeArticle(path.join(path.dirname(billing.filePath), 'Draft.md'), { title: 'Draft', locale: 'en' }, 'Draft\n');
+
+      const statuses = await new SyncStatus(config).getStatus();
+      const states = statuses
+        .map(status => `${status.intercomId || status.title}:${status.locale}=${status.state}`)
+        .sort()
+        .join(',');
+      assertEqual(
+        states,
+        '1:en=remote-modified,1:ja=both-modified,2:en=local-modified,3:en=remote-deleted,4:en=remote-only,Draft:en=local-only',
+        'states'
+      );
+    },
+  },
+  {
+    name: 'status uses the manifest without .original/ and lists unreadable files',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+      await fs.rm(path.join(dir, SNAPSHOT_DIR), { recursive: true, force: true });
+
+      const articles = await readLocalArticles(dir);
+      const welcome = articles.get('1:en')!;
+      const billing = articles.get('2:en')!;
+      await writeArticle(welcome.filePath, welcome.frontMatter, 'Local welcome\n');
+      await writeArticle(billing.filePath, billing.frontMatter, 'Local billing\n');
+      server.updateArticle('1', { body: '<p class="no-margin">Remote welcome</p>' });
+      const ja = server.articles.get('1')!.translated_content!.ja;
+      server.updateArticle('1', { translated_content: { ja: { ...ja, body: '<p class="no-margin">リモート</p>' } } });
+      const broken = path.join(path.dirname(billing.filePath), 'Broken.md');
+      await fs.writeFile(broken, '---\ntitle: [unclosed\n---\nBody\n');
+
+      const statuses = await new SyncStatus(config).getStatus();
+      const states = statuses
+        .map(status => `${status.intercomId || path.basename(status.file!)}:${status.locale}=${status.state}`)
+        .sort()
+        .join(',');
+      assertEqual(states, '1:en=both-modified,1:ja=remote-modified,2:en=local-modified,Broken.md:en=invalid', 'states');
+      assert(!!statuses.find(status => status.state === 'invalid')?.error, 'error of the invalid file');
+
+      const pulled = await new SyncFromIntercom(config).syncAll();
+      assertEqual(pulled.conflicts.map(c => `${c.articleId}`).join(','), '1', 'pull conflicts');
+    },
+  },
+  {
+    name: 'locally deleted files are matched to a single article, and translations reported apart',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      // Without a manifest entry, the deleted file is matched by its snapshot content
+      const manifest = await loadManifest(dir);
+      removeManifestEntry(manifest, '2');
+      await saveManifest(dir, manifest);
+
+      const articles = await readLocalArticles(dir);
+      const billing = articles.get('2:en')!.filePath;
+      const welcomeJa = articles.get('1:ja')!.filePath;
+      await fs.rm(billing);
+      await fs.rm(welcomeJa);
+
+      const found = await new SyncToIntercom(config).findDeletedArticles();
+      assertEqual(found.candidates.map(c => `${c.intercomId}:${c.files.join(',')}`).join(';'), `2:${billing}`, 'candidates');
+      assertEqual(found.translations.join(','), welcomeJa, 'translations');
+      assertEqual(found.unmatched.length, 0, 'unmatched');
+
+      // Several articles with the same content: nothing to delete
+      server.addArticle({ id: '3', title: 'Billing (copy)', body: '<p class="no-margin">Pay us</p>', parent_id: '10', parent_type: 'collection' });
+      const ambiguous = await new SyncToIntercom(config).findDeletedArticles();
+      assertEqual(ambiguous.candidates.length, 0, 'ambiguous candidates');
+      assertEqual(ambiguous.unmatched.join(','), billing, 'ambiguous unmatched');
+    },
+  },
+  {
+    name: 'delete removes articles from Intercom with their local files',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      const sync = new SyncToIntercom(config);
+      const welcomeJa = (await readLocalArticles(dir)).get('1:ja')!.filePath;
+      const candidate = await sync.findArticleGroup(welcomeJa);
+      assertEqual(candidate.locales.sort().join(','), 'en,ja', 'candidate locales');
+
+      const result = await sync.deleteArticles([candidate]);
+      assertEqual(result.deleted, 1, 'deleted');
+      assertEqual(server.articles.has('1'), false, 'remote article deleted');
+      assertEqual(Array.from((await readLocalArticles(dir)).keys()).join(','), '2:en', 'local files left');
+      assertEqual((await loadManifest(dir)).articles['1'], undefined, 'manifest entry');
+    },
+  },
+  {
+    name: 'CLI push --prune deletes articles whose local files were deleted',
+    run: async ({ server, dir }) => {
+      seedHelpCenter(server);
+      const configPath = path.join(dir, '.intercom-config.json');
+      await fs.writeFile(configPath, JSON.stringify({ articlesDir: '.', apiBaseUrl: server.url }));
+      const env = { INTERCOM_ACCESS_TOKEN: 'test-token' };
+      assertEqual(await runCli(['pull', '--config', configPath], env), 0, 'pull exit code');
+
+      const articles = await readLocalArticles(dir);
+      await fs.rm(articles.get('1:en')!.filePath);
+      await fs.rm(articles.get('1:ja')!.filePath);
+
+      assertEqual(await runCli(['push', '--all', '--prune', '--dry-run', '--config', configPath], env), 0, 'dry run exit code');
+      assertEqual(server.articles.has('1'), true, 'deleted by a dry run');
+
+      assertEqual(await runCli(['push', '--all', '--prune', '--config', configPath], env), EXIT_CODES.CONFIG, 'exit code without --yes');
+      assertEqual(server.articles.has('1'), true, 'deleted without confirmation');
+
+      assertEqual(await runCli(['push', '--all', '--prune', '--yes', '--config', configPath], env), 0, 'exit code');
+      assertEqual(server.articles.has('1'), false, 'remote article deleted');
+      assertEqual(server.articles.has('2'), true, 'other article kept');
+    },
+  },
+  {
+    name: 'pull flags articles deleted in Intercom',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+
+      server.articles.delete('2');
+      const result = await new SyncFromIntercom(config).syncAll();
+      assertEqual(result.orphaned, 1, 'orphaned');
+      assertEqual((await readLocalArticles(dir)).get('2:en')?.frontMatter.orphaned, true, 'orphaned flag');
+    },
+  },
+  {
+    name: 'pull flags, archives or deletes collections deleted in Intercom',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      server.addCollection({ id: '11', name: 'Legacy' });
+      await new SyncFromIntercom(config).syncAll();
+
+      const legacyFile = path.join(dir, 'en', 'legacy', '_collection.yml');
+      server.collections.delete('11');
+      const flagged = await new SyncFromIntercom(config).syncAll();
+      assertEqual(flagged.orphaned, 1, 'orphaned');
+      assertEqual((await readCollection(legacyFile)).metadata.orphaned, true, 'orphaned flag');
+
+      // Flagged collections are neither looked up nor re-created on push
+      const pushed = await new SyncToIntercom(config).syncAll();
+      assert(pushed.success && pushed.errors.length === 0, `push failed: ${JSON.stringify(pushed.errors)}`);
+      assertEqual(server.collections.size, 1, 'remote collections');
+
+      await writeCollection(legacyFile, { ...(await readCollection(legacyFile)).metadata, orphaned: undefined });
+      await new SyncFromIntercom({ ...config, pruneOrphans: 'archive' }).syncAll();
+      assert(await exists(path.join(dir, ARCHIVE_DIR, 'en', 'legacy', '_collection.yml')), 'archived file missing');
+      assert(!(await exists(legacyFile)), 'archived file left in place');
+    },
+  },
+  {
+    name: 'API versions and regions select the endpoint and payload format',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      // Articles in several help centers only list parent_ids in 2.10+
+      server.addArticle({ id: '3', title: 'Shared', body: '<p>Shared</p>', parent_id: undefined, parent_ids: ['10', '20'] });
+
+      await new SyncFromIntercom({ ...config, apiVersion: '2.9' }).syncAll();
+      assertEqual(path.basename(path.dirname((await readLocalArticles(dir)).get('3:en')!.filePath)), 'uncategorized', '2.9 folder');
+      assert(server.requests.every(r => r.version === '2.9'), 'Intercom-Version 2.9');
+
+      await fs.rm(dir, { recursive: true, force: true });
+      server.requests.length = 0;
+      await new SyncFromIntercom(config).syncAll();
+      const shared = (await readLocalArticles(dir)).get('3:en')!;
+      assertEqual(shared.frontMatter.intercom_collection_id, '10', '2.10 collection from parent_ids');
+      assert(server.requests.every(r => r.version === '2.10'), 'default Intercom-Version');
+
+      // 2.10 sends numeric parent IDs, 2.9 sends them as they are
+      const billing = (await readLocalArticles(dir)).get('2:en')!;
+      await writeArticle(billing.filePath, billing.frontMatter, 'Pay us now\n');
+      await new SyncToIntercom(config).syncFile(billing.filePath);
+      assertEqual(server.requests.find(r => r.method === 'PUT')?.body?.parent_id, 10, '2.10 parent_id');
+      server.requests.length = 0;
+      await writeArticle(billing.filePath, billing.frontMatter, 'Pay us later\n');
+      await new SyncToIntercom({ ...config, apiVersion: '2.9' }).syncFile(billing.filePath);
+      assertEqual(server.requests.find(r => r.method === 'PUT')?.body?.parent_id, '10', '2.9 parent_id');
+
+      // apiBaseUrl overrides the region; unknown regions and versions are config errors
+      const eu = await new SyncFromIntercom({ ...config, region: 'eu' }).syncAll();
+      assert(eu.success, `pull with region and apiBaseUrl failed: ${JSON.stringify(eu.errors)}`);
+      const configErrorCode = (create: () => unknown): string | undefined => {
+        try {
+          create();
+          return undefined;
+        } catch (error) {
+          return (error as { code?: string }).code;
+        }
+      };
+      assertEqual(
+        configErrorCode(() => new SyncFromIntercom({ ...config, apiBaseUrl: undefined, region: 'mars' as IntercomConfig['region'] })),
+        'CONFIG',
+        'unknown region'
+      );
+      assertEqual(configErrorCode(() => new SyncToIntercom({ ...config, apiVersion: '1.0' })), 'CONFIG', 'unknown version');
+    },
+  },
+  {
+    name: 'rate limited requests are retried',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      server.rateLimit(2);
+
+      const result = await new SyncFromIntercom(config).syncAll();
+      assert(result.success, `pull failed: ${JSON.stringify(result.errors)}`);
+      assertEqual((await readLocalArticles(dir)).size, 3, 'local files');
+      assertEqual(server.requests.filter(r => r.path === '/help_center/collections').length, 3, 'collection requests');
+    },
+  },
+  {
+    name: 'API failures surface as typed errors',
+    run: async ({ server, config }) => {
+      seedHelpCenter(server);
+      server.failNext(500, { path: '/articles', times: 10 });
+
+      const result = await new SyncFromIntercom({ ...config, maxRetries: 1 }).syncAll();
+      assertEqual(result.success, false, 'success');
+      assertEqual(result.errors[0]?.code, 'API', 'error code');
+      assertEqual(result.errors[0]?.status, 500, 'status');
+
+      const auth = await new SyncFromIntercom({ ...config, intercomAccessToken: 'wrong' }).syncAll();
+      assertEqual(auth.errors[0]?.code, 'AUTH', 'auth error code');
+    },
+  },
+  {
+    name: 'an unreadable manifest is reported as a parse error of its file',
+    run: async ({ server, dir, config }) => {
+      seedHelpCenter(server);
+      await new SyncFromIntercom(config).syncAll();
+      const manifestPath = path.join(dir, MANIFEST_FILE);
+      await fs.writeFile(manifestPath, '{ "articles": ');
+
+      const result = await new SyncFromIntercom(config).syncAll();
+      assertEqual(result.errors[0]?.code, 'LOCAL_PARSE', 'error code');
+      assertEqual(result.errors[0]?.file, manifestPath, 'error file');
+    },
+  },
+  {
+    name: 'CLI pull exits with the auth exit code on an invalid token',
+    run: async ({ server, dir }) => {
+      seedHelpCenter(server);
+      const configPath = path.join(dir, '.intercom-config.json');
+      await fs.writeFile(configPath, JSON.stringify({ articlesDir: '.', apiBaseUrl: server.url }));
+
+      const exitCode = await runCli(['pull', '--config', configPath], { INTERCOM_ACCESS_TOKEN: 'wrong' });
+      assertEqual(exitCode, EXIT_CODES.AUTH, 'exit code');
+
+      const okCode = await runCli(['pull', '--config', configPath], { INTERCOM_ACCESS_TOKEN: 'test-token' });
+      assertEqual(okCode, 0, 'exit code with valid token');
+      assertEqual((await readLocalArticles(dir)).size, 3, 'local files');
+    },
+  },
+];
+
+/**
+ * Run the CLI in a child process (asynchronously, so the in-process server keeps serving)
+ */
+function runCli(args: string[], env: Record<string, string>): Promise<number> {
+  const cli = path.join(__dirname, '..', 'src', 'cli.ts');
+  return new Promise(resolve => {
+    execFile(
+      process.execPath,
+      ['-r', 'ts-node/register/transpile-only', cli, ...args],
+      { cwd: path.join(__dirname, '..'), env: { ...process.env, ...env }, timeout: 60000 },
+      error => resolve(error ? (typeof error.code === 'number' ? error.code : 1) : 0)
+    );
+  });
+}
+
+async function runTests(): Promise<void> {
+  console.log('Running end-to-end tests...\n');
+
+  let passed = 0;
+  let failed = 0;
+  const failures: string[] = [];
+
+  for (const test of tests) {
+    const server = new FakeIntercomServer({ maxPerPage: 2 });
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'intercom-help-sync-'));
+    const config: IntercomConfig = {
+      intercomAccessToken: 'test-token',
+      articlesDir: dir,
+      apiBaseUrl: await server.start(),
+      maxRetries: 2,
+    };
+
+    try {
+      await test.run({ server, dir, config });
+      passed++;
+      console.log(`✓ ${test.name}`);
+    } catch (error) {
+      failed++;
+      const message = `✗ ${test.name}\n  ${error instanceof Error ? error.message : String(error)}`;
+      failures.push(message);
+      console.log(message);
+    } finally {
+      await server.stop();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const failure of failures) {
+      console.log(failure);
+    }
+    process.exit(1);
+  } else {
+    console.log('\nAll tests passed!');
+    process.exit(0);
+  }
+}
+
+runTests();